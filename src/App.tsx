@@ -1,45 +1,86 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Gift, Heart, Map, Shield, Sparkles, Sword, Search } from 'lucide-react';
+import { ClipboardCopy, Copy, Dices, Download, FileText, Gift, Heart, KeyRound, Layers, Map, PencilRuler, Settings, Shield, Sparkles, Star, Sword, Search, Upload } from 'lucide-react';
 import DungeonCanvas, { DungeonCanvasHandle } from './DungeonCanvas';
-import { CombatState, GameState, MonsterArchetype, MonsterInstance, Tile } from './types';
-import { generateDungeon, labelRegions } from './dungeonGen';
-import { computeVisibility } from './visibility';
+import { EquipSlot, GameState, HeroClassId, RuneId } from './types';
+import { keyName } from './dungeonGen';
+import { describeBonuses, equipSlot, isConsumable, itemsById } from './items';
+import { riddlesById } from './riddles';
+import { bossDefinitionFor } from './boss';
+import BossCombatPanel from './BossCombatPanel';
+import CombatActions from './CombatActions';
+import StatusBadges from './StatusBadges';
+import LevelUpDialog from './LevelUpDialog';
+import RuneCasting from './RuneCasting';
+import { perksById, xpForLevel } from './progression';
+import LevelEditor from './LevelEditor';
+import ClassSelect from './ClassSelect';
+import { heroClassFor } from './heroClasses';
+import { draftFromMap } from './editor';
+import { createGame, createGameFromMap, GameAction, GameEvent, IMPORTED_MAP, MAX_DEPTH, realmName, step, withLog } from './engine';
+import { generators, generatorsById, VARIED_GENERATORS } from './generators';
+import { biomeFor } from './biomes';
+import { adjacentTrap, disarmChance, trapKindOf, trapsByKind } from './traps';
+import { randomSeed } from './rng';
+import { Point } from './pathfinding';
+import { planTravel, travelInterruption } from './travel';
+import { AsciiMap, downloadAsciiMap, mapFromGame, parseAsciiMap, printAsciiMap, readAsciiMapFile } from './asciiMap';
+import { downloadSave, loadFromStorage, readSaveFile, saveToStorage } from './save';
 
-const GRID_SIZE = 16;
 const TILE_SIZE = 44;
-const VISION_RADIUS = 4;
-const MAX_LOG = 30;
-const SEARCH_DISTANCE = 10;
-const SEARCH_CHANCE = 0.85;
-
-const archetypes: MonsterArchetype[] = [
-  { id: 'goblin', name: 'Goblin', glyph: 'g', maxHP: 10, atk: 3, def: 1, gold: 5, tier: 'minion' },
-  { id: 'orc', name: 'Orc', glyph: 'o', maxHP: 16, atk: 5, def: 2, gold: 12, tier: 'minion' },
-  { id: 'skeleton', name: 'Skeleton', glyph: 's', maxHP: 12, atk: 4, def: 1, gold: 8, tier: 'minion' },
-  { id: 'zombie', name: 'Zombie', glyph: 'z', maxHP: 14, atk: 4, def: 2, gold: 10, tier: 'minion' },
-  { id: 'chaosWarrior', name: 'Chaos Warrior', glyph: 'c', maxHP: 22, atk: 6, def: 3, gold: 18, tier: 'elite' },
-  { id: 'abomination', name: 'Abomination', glyph: 'a', maxHP: 24, atk: 6, def: 3, gold: 20, tier: 'elite' },
-  { id: 'gargoyle', name: 'Gargoyle', glyph: 'G', maxHP: 32, atk: 8, def: 4, gold: 50, tier: 'boss' }
+/** Tiles shown around the hero; the map scrolls beneath this window. */
+const VIEWPORT = { width: 17, height: 13 };
+const TRAVEL_STEP_MS = 110;
+const EQUIP_SLOTS: { slot: EquipSlot; label: string }[] = [
+  { slot: 'weapon', label: 'Weapon' },
+  { slot: 'armour', label: 'Armour' },
+  { slot: 'amulet', label: 'Amulet' }
 ];
 
-const toRecord = <T extends { id: string }>(list: T[]) =>
-  list.reduce<Record<string, T>>((acc, item) => {
-    acc[item.id] = item;
-    return acc;
-  }, {});
-
-const roll = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
+const seedFromUrl = () => new URLSearchParams(window.location.search).get('seed');
+/** A text map (see `asciiMap.ts`) passed URL-encoded as `?map=`. */
+const mapFromUrl = () => new URLSearchParams(window.location.search).get('map');
 
 const NorseDungeonCrawler: React.FC = () => {
   const canvasRef = useRef<DungeonCanvasHandle | null>(null);
   const [game, setGame] = useState<GameState | null>(null);
+  const gameRef = useRef<GameState | null>(null);
+  const [seedInput, setSeedInput] = useState('');
+  const [riddleAnswer, setRiddleAnswer] = useState('');
   const logContainerRef = useRef<HTMLDivElement | null>(null);
   const logEndRef = useRef<HTMLDivElement | null>(null);
 
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const travelTimerRef = useRef<number | null>(null);
+  const [travelPath, setTravelPath] = useState<Point[]>([]);
+  /** Level editor draft; kept while play-testing so the editor reopens where it left off. */
+  const [editorMap, setEditorMap] = useState<AsciiMap | null>(null);
+  const [editing, setEditing] = useState(false);
+  /** A new run waiting on the class selection screen. */
+  const [pendingRun, setPendingRun] = useState<{ seed: string; notice?: string } | null>(null);
+
   useEffect(() => {
-    initializeGame();
+    const urlSeed = seedFromUrl();
+    const urlMap = mapFromUrl();
+    const saved = urlSeed || urlMap ? null : loadFromStorage();
+    if (urlMap) {
+      try {
+        startMapRun(parseAsciiMap(urlMap), urlSeed || randomSeed());
+      } catch (error) {
+        initializeGame(urlSeed || randomSeed(), `Could not load map from the URL: ${(error as Error).message}`);
+      }
+    } else if (saved) {
+      resumeGame(withLog(saved, 'You resume your saga.'));
+    } else {
+      initializeGame(urlSeed || randomSeed());
+    }
   }, []);
 
+  useEffect(() => {
+    if (game) saveToStorage(game);
+  }, [game]);
+
+  useEffect(() => () => stopTravel(), []);
+
   useEffect(() => {
     if (!game) return;
     const handle = requestAnimationFrame(() => {
@@ -51,7 +92,9 @@ const NorseDungeonCrawler: React.FC = () => {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       const target = e.target as HTMLElement;
-      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || editing) return;
+      if (pendingRun || gameRef.current?.player.pendingLevelUps) return;
+      stopTravel();
       if (e.key === 'ArrowUp' || e.key === 'w' || e.key === 'W') tryMove(0, -1);
       if (e.key === 'ArrowDown' || e.key === 's' || e.key === 'S') tryMove(0, 1);
       if (e.key === 'ArrowLeft' || e.key === 'a' || e.key === 'A') tryMove(-1, 0);
@@ -61,338 +104,224 @@ const NorseDungeonCrawler: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   });
 
-  const initializeGame = () => {
-    const { tiles: baseTiles, start, boss } = generateDungeon(GRID_SIZE);
-
-    let tiles = baseTiles;
-    tiles = placeTraps(tiles, start, boss);
-    tiles = placeTreasures(tiles, start, boss);
-    tiles = labelRegions(tiles);
-    tiles = placeSecretDoors(tiles);
-    tiles = labelRegions(tiles);
-
-    const { monstersById, tiles: withMonsters } = spawnMonsters(tiles, start, boss);
-    const labeled = labelRegions(withMonsters);
-    const visibility = computeVisibility(labeled, start, VISION_RADIUS);
-
-    const initialState: GameState = {
-      gridSize: GRID_SIZE,
-      tiles: visibility,
-      player: { x: start.x, y: start.y, hp: 40, maxHP: 40, atk: 6, def: 4, gold: 0 },
-      monstersById,
-      archetypesById: toRecord(archetypes),
-      combat: { active: false, monsterId: null },
-      log: ['You enter the frozen halls beneath Yggdrasil...'],
-      inventory: []
-    };
-
-    setGame(initialState);
+  const resumeGame = (state: GameState) => {
+    stopTravel();
+    gameRef.current = state;
+    setGame(state);
+    setSeedInput(state.seed);
   };
 
-  const appendLog = (message: string) => {
-    setGame((prev) => (prev ? { ...prev, log: [...prev.log, message].slice(-MAX_LOG) } : prev));
+  /** Open the class selection screen for a new run on `seed`. */
+  const initializeGame = (seed: string, notice?: string) => {
+    stopTravel();
+    setPendingRun({ seed, notice });
   };
 
-  const updateTiles = (tiles: Tile[][], x: number, y: number, updater: (tile: Tile) => Tile) => {
-    return tiles.map((row, rowIndex) =>
-      rowIndex === y ? row.map((tile, colIndex) => (colIndex === x ? updater(tile) : tile)) : row
-    );
+  const startClassRun = (heroClass: HeroClassId) => {
+    if (!pendingRun) return;
+    try {
+      resumeGame(createGame(pendingRun.seed, gameRef.current?.generatorSetting, heroClass));
+      setPendingRun(null);
+    } catch (error) {
+      setPendingRun({ seed: pendingRun.seed, notice: `Could not start this run: ${(error as Error).message}` });
+    }
   };
 
-  const placeTraps = (tiles: Tile[][], start: { x: number; y: number }, boss: { x: number; y: number }) => {
-    const candidates: { x: number; y: number }[] = [];
-    tiles.forEach((row, y) => {
-      row.forEach((tile, x) => {
-        if ((tile.type === 'room' || tile.type === 'corridor') && !(x === start.x && y === start.y) && !(x === boss.x && y === boss.y)) {
-          candidates.push({ x, y });
-        }
-      });
-    });
+  /** Applies from the next floor down, and to new runs started from this page. */
+  const changeGeneratorSetting = (setting: string) => {
+    const current = gameRef.current;
+    if (!current) return;
+    const label = generatorsById[setting]?.name ?? 'a different layout on every floor';
+    gameRef.current = withLog({ ...current, generatorSetting: setting }, `Deeper floors will be built as: ${label}.`);
+    setGame(gameRef.current);
+  };
 
-    const traps = roll(3, 6);
-    let placed = 0;
-    let updated = tiles;
-    while (placed < traps && candidates.length) {
-      const idx = roll(0, candidates.length - 1);
-      const { x, y } = candidates.splice(idx, 1)[0];
-      updated = updateTiles(updated, x, y, (tile) => ({ ...tile, type: 'trap', revealed: false, triggered: false }));
-      placed++;
-    }
+  const startMapRun = (map: AsciiMap, seed: string) => {
+    resumeGame(createGameFromMap(seed, map, gameRef.current?.generatorSetting, gameRef.current?.heroClass));
+  };
 
-    return updated;
+  const openEditor = () => {
+    if (!editorMap && gameRef.current) setEditorMap(draftFromMap(mapFromGame(gameRef.current)));
+    stopTravel();
+    setEditing(true);
   };
 
-  const placeTreasures = (tiles: Tile[][], start: { x: number; y: number }, boss: { x: number; y: number }) => {
-    const candidates: { x: number; y: number }[] = [];
-    tiles.forEach((row, y) => {
-      row.forEach((tile, x) => {
-        if ((tile.type === 'room' || tile.type === 'corridor') && !(x === start.x && y === start.y) && !(x === boss.x && y === boss.y)) {
-          candidates.push({ x, y });
-        }
-      });
-    });
+  /** Throws (for the editor to show) when the draft can't be played. */
+  const playTestDraft = () => {
+    if (!editorMap) return;
+    startMapRun(editorMap, gameRef.current?.seed ?? randomSeed());
+    setEditing(false);
+  };
 
-    const treasures = roll(3, 6);
-    let updated = tiles;
-    for (let i = 0; i < treasures && candidates.length; i++) {
-      const idx = roll(0, candidates.length - 1);
-      const { x, y } = candidates.splice(idx, 1)[0];
-      updated = updateTiles(updated, x, y, (tile) => ({ ...tile, type: 'treasure' }));
+  const loadMapFile = async (file: File) => {
+    try {
+      startMapRun(await readAsciiMapFile(file), gameRef.current?.seed ?? randomSeed());
+    } catch (error) {
+      appendLog(`Could not load map: ${(error as Error).message}`);
     }
+  };
 
-    return updated;
+  /** Dropped `.json` files are saves; anything else is read as a text map. */
+  const handleMapDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files?.[0];
+    if (!file) return;
+    if (file.name.endsWith('.json')) loadSaveFile(file);
+    else loadMapFile(file);
   };
 
-  // Secret doors are only carved along boundaries between distinct passable regions.
-  const placeSecretDoors = (tiles: Tile[][]) => {
-    const candidates: { x: number; y: number; regions: [number, number] }[] = [];
-    const dirs = [
-      { x: 1, y: 0 },
-      { x: -1, y: 0 },
-      { x: 0, y: 1 },
-      { x: 0, y: -1 }
-    ];
-
-    for (let y = 1; y < tiles.length - 1; y++) {
-      for (let x = 1; x < tiles[0].length - 1; x++) {
-        const tile = tiles[y][x];
-        if (tile.type !== 'wall') continue;
-
-        const neighborRegions = new Set<number>();
-        dirs.forEach((d) => {
-          const neighbor = tiles[y + d.y][x + d.x];
-          if (neighbor.regionId !== undefined) {
-            neighborRegions.add(neighbor.regionId);
-          }
-        });
-
-        if (neighborRegions.size >= 2) {
-          const [a, b] = Array.from(neighborRegions) as [number, number];
-          candidates.push({ x, y, regions: [a, b] });
-        }
-      }
-    }
+  const copyMap = () => {
+    if (!game) return;
+    navigator.clipboard
+      ?.writeText(printAsciiMap(mapFromGame(game)))
+      .then(() => appendLog('Map copied as text.'))
+      .catch(() => appendLog('Could not copy the map.'));
+  };
 
-    const secrets = candidates.length === 0 ? 0 : roll(1, Math.min(2, candidates.length));
-    let updated = tiles;
-    for (let i = 0; i < secrets && candidates.length; i++) {
-      const idx = roll(0, candidates.length - 1);
-      const { x, y, regions } = candidates.splice(idx, 1)[0];
-      updated = updateTiles(updated, x, y, (tile) => ({
-        ...tile,
-        type: 'secretDoor',
-        revealed: false,
-        secretDoorLinks: regions
-      }));
+  const loadSaveFile = async (file: File) => {
+    try {
+      const state = await readSaveFile(file);
+      resumeGame(withLog(state, `Loaded saga from ${file.name}.`));
+    } catch (error) {
+      appendLog(`Could not load save: ${(error as Error).message}`);
     }
-
-    return updated;
   };
 
-  const spawnMonsters = (
-    tiles: Tile[][],
-    start: { x: number; y: number },
-    boss: { x: number; y: number }
-  ): { tiles: Tile[][]; monstersById: Record<string, MonsterInstance> } => {
-    const walkable: { x: number; y: number }[] = [];
-    tiles.forEach((row, y) => {
-      row.forEach((tile, x) => {
-        if (tile.type === 'room' || tile.type === 'corridor' || tile.type === 'boss') {
-          if (!(x === start.x && y === start.y)) {
-            walkable.push({ x, y });
-          }
-        }
-      });
+  const playEvents = (events: GameEvent[]) => {
+    events.forEach((event) => {
+      if (event.type === 'hitFlash') canvasRef.current?.hitFlash(event.target);
+      if (event.type === 'particles') canvasRef.current?.spawnParticles(event.x, event.y, event.kind);
+      if (event.type === 'screenShake') canvasRef.current?.screenShake?.(event.duration, event.intensity);
     });
+  };
 
-    let updatedTiles = tiles;
-    const monsterCount = roll(6, 10);
-    const monstersById: Record<string, MonsterInstance> = {};
-
-    const nonBossArchetypes = archetypes.filter((a) => a.tier !== 'boss');
+  const dispatch = (action: GameAction) => {
+    const current = gameRef.current;
+    if (!current) return null;
+    const { state, events } = step(current, action);
+    if (state === current) return current;
+    gameRef.current = state;
+    setGame(state);
+    playEvents(events);
+    return state;
+  };
 
-    for (let i = 0; i < monsterCount && walkable.length; i++) {
-      const idx = roll(0, walkable.length - 1);
-      const { x, y } = walkable.splice(idx, 1)[0];
-      if (x === boss.x && y === boss.y) continue;
-      const archetype = nonBossArchetypes[roll(0, nonBossArchetypes.length - 1)];
-      const id = `${archetype.id}-${i}-${Date.now()}`;
-      monstersById[id] = { id, archetypeId: archetype.id, hp: archetype.maxHP, pos: { x, y } };
-      updatedTiles = updateTiles(updatedTiles, x, y, (tile) => ({ ...tile, monsterId: id }));
-    }
+  const appendLog = (message: string) => {
+    const current = gameRef.current;
+    if (!current) return;
+    gameRef.current = withLog(current, message);
+    setGame(gameRef.current);
+  };
 
-    const bossArchetype = archetypes.find((a) => a.tier === 'boss');
-    if (bossArchetype) {
-      const bossId = `${bossArchetype.id}-boss`;
-      monstersById[bossId] = { id: bossId, archetypeId: bossArchetype.id, hp: bossArchetype.maxHP, pos: boss };
-      updatedTiles = updateTiles(updatedTiles, boss.x, boss.y, (tile) => ({ ...tile, monsterId: bossId }));
+  const stopTravel = () => {
+    if (travelTimerRef.current !== null) {
+      window.clearInterval(travelTimerRef.current);
+      travelTimerRef.current = null;
     }
-
-    return { tiles: updatedTiles, monstersById };
+    setTravelPath([]);
   };
 
-  const tryMove = (dx: number, dy: number) => {
-    setGame((prev) => {
-      if (!prev || prev.combat.active || prev.player.hp <= 0) return prev;
-      const newX = prev.player.x + dx;
-      const newY = prev.player.y + dy;
-      if (newX < 0 || newY < 0 || newX >= prev.gridSize || newY >= prev.gridSize) {
-        appendLog('You cannot go that way.');
-        return prev;
-      }
-      const target = prev.tiles[newY][newX];
-      if (target.type === 'wall') {
-        appendLog('A solid wall blocks the path.');
-        return prev;
-      }
-      if (target.type === 'secretDoor' && !target.revealed) {
-        appendLog('You sense a dead end here.');
-        return prev;
-      }
-
-      let nextTiles = prev.tiles;
-      let nextState: GameState = {
-        ...prev,
-        player: { ...prev.player, x: newX, y: newY }
-      };
-
-      if (target.type === 'trap' && !target.triggered) {
-        const damage = roll(5, 15);
-        appendLog(`A hidden trap springs! You take ${damage} damage.`);
-        nextState.player = { ...nextState.player, hp: Math.max(0, nextState.player.hp - damage) };
-        nextTiles = updateTiles(nextTiles, newX, newY, (tile) => ({ ...tile, revealed: true, triggered: true }));
-        canvasRef.current?.hitFlash('player');
-      }
-
-      if (target.type === 'treasure') {
-        const gold = roll(10, 25);
-        appendLog(`You find ${gold} gold.`);
-        nextState.player = { ...nextState.player, gold: nextState.player.gold + gold };
-        nextTiles = updateTiles(nextTiles, newX, newY, (tile) => ({ ...tile, type: 'corridor', lootId: null }));
-        canvasRef.current?.spawnParticles(newX, newY, 'treasure');
-      }
-
-      if (target.monsterId) {
-        const monster = prev.monstersById[target.monsterId];
-        if (monster) {
-          appendLog(`A ${prev.archetypesById[monster.archetypeId].name} engages you!`);
-          nextState.combat = { active: true, monsterId: monster.id } as CombatState;
-        }
+  /** Walk to a clicked tile one step per tick, stopping as soon as anything noteworthy happens. */
+  const travelTo = (x: number, y: number) => {
+    stopTravel();
+    const current = gameRef.current;
+    if (!current || current.combat.active || current.player.hp <= 0 || current.player.pendingLevelUps) return;
+    const path = planTravel(current, { x, y });
+    if (!path) {
+      appendLog('You know of no way there.');
+      return;
+    }
+    if (!path.length) return;
+
+    let remaining = path;
+    setTravelPath(remaining);
+    travelTimerRef.current = window.setInterval(() => {
+      const before = gameRef.current;
+      const [next, ...rest] = remaining;
+      if (!before || !next) {
+        stopTravel();
+        return;
       }
-
-      const withRegions = labelRegions(nextTiles);
-      const withVisibility = computeVisibility(withRegions, { x: newX, y: newY }, VISION_RADIUS);
-      nextState = { ...nextState, tiles: withVisibility };
-
-      if (nextState.player.hp <= 0) {
-        appendLog('You succumb to your wounds.');
+      const after = dispatch({ type: 'move', dx: next.x - before.player.x, dy: next.y - before.player.y });
+      if (!after) return;
+      remaining = rest;
+      const moved = after.player.x === next.x && after.player.y === next.y;
+      const reason = travelInterruption(before, after) ?? (moved ? null : 'Your way is blocked.');
+      if (reason) {
+        stopTravel();
+        appendLog(reason);
+      } else if (!rest.length) {
+        stopTravel();
+      } else {
+        setTravelPath(rest);
       }
-
-      return nextState;
-    });
+    }, TRAVEL_STEP_MS);
   };
 
-  const searchAround = () => {
-    setGame((prev) => {
-      if (!prev || prev.player.hp <= 0) return prev;
-      const found: string[] = [];
-      let tiles = prev.tiles;
-      const playerRegion = prev.tiles[prev.player.y][prev.player.x].regionId;
-
-      for (let y = 0; y < prev.gridSize; y++) {
-        for (let x = 0; x < prev.gridSize; x++) {
-          const tile = tiles[y][x];
-          if (playerRegion === undefined || tile.regionId !== playerRegion) continue;
-          const dist = Math.hypot(prev.player.x - x, prev.player.y - y);
-          if (dist > SEARCH_DISTANCE) continue;
-          if ((tile.type === 'trap' || tile.type === 'secretDoor') && !tile.revealed) {
-            if (Math.random() < SEARCH_CHANCE) {
-              tiles = updateTiles(tiles, x, y, (t) => ({ ...t, revealed: true }));
-              found.push(tile.type === 'trap' ? 'trap' : 'secret door');
-            }
-          }
-        }
-      }
-
-      const needsRelabel = found.some((f) => f === 'secret door');
-      const nextTiles = needsRelabel ? labelRegions(tiles) : tiles;
-      const chance = Math.round(SEARCH_CHANCE * 100);
-      const message =
-        found.length === 0
-          ? `You search carefully (${chance}% focus) but find nothing in this area.`
-          : `You discover ${found.join(' and ')} nearby!`;
-
-      return { ...prev, tiles: nextTiles, log: [...prev.log, message].slice(-MAX_LOG) };
-    });
+  const tryMove = (dx: number, dy: number) => dispatch({ type: 'move', dx, dy });
+  const searchAround = () => dispatch({ type: 'search' });
+  const closeDoors = () => dispatch({ type: 'closeDoors' });
+  const disarmTrap = () => dispatch({ type: 'disarm' });
+  const useClassAbility = () => dispatch({ type: 'useAbility' });
+  const castSpell = (runes: RuneId[]) => dispatch({ type: 'cast', runes });
+
+  const submitRiddleAnswer = () => {
+    if (!riddleAnswer.trim()) return;
+    dispatch({ type: 'answerRiddle', answer: riddleAnswer });
+    setRiddleAnswer('');
   };
 
-  const resolvePlayerAttack = () => {
-    setGame((prev) => {
-      if (!prev || !prev.combat.active || !prev.combat.monsterId || prev.player.hp <= 0) return prev;
-      const monster = prev.monstersById[prev.combat.monsterId];
-      const archetype = monster ? prev.archetypesById[monster.archetypeId] : undefined;
-      if (!monster || !archetype) return prev;
-
-      const rollValue = roll(1, 6);
-      const damage = Math.max(1, prev.player.atk + rollValue - archetype.def);
-      const newHP = monster.hp - damage;
-      appendLog(`You strike the ${archetype.name} for ${damage} damage.`);
-      canvasRef.current?.hitFlash('monster');
-      let tiles = prev.tiles;
-      let monsters = { ...prev.monstersById };
-      let combat: CombatState = { ...prev.combat };
-      let player = { ...prev.player };
-
-      if (newHP <= 0) {
-        appendLog(`The ${archetype.name} falls! +${archetype.gold} gold`);
-        player = { ...player, gold: player.gold + archetype.gold };
-        tiles = updateTiles(tiles, monster.pos.x, monster.pos.y, (tile) => ({ ...tile, monsterId: null }));
-        delete monsters[monster.id];
-        combat = { active: false, monsterId: null };
-        canvasRef.current?.spawnParticles(monster.pos.x, monster.pos.y, 'monster');
-      } else {
-        monsters[monster.id] = { ...monster, hp: newHP };
-        combat = { ...combat, lastHitAt: Date.now() };
-      }
-
-      const afterPlayer = { ...prev, tiles, monstersById: monsters, combat, player };
-      return newHP <= 0 ? afterPlayer : resolveMonsterAttack(afterPlayer);
-    });
+  const restartGame = () => {
+    initializeGame(randomSeed());
   };
 
-  const resolveMonsterAttack = (state: GameState) => {
-    if (!state.combat.active || !state.combat.monsterId) return state;
-    const monster = state.monstersById[state.combat.monsterId];
-    const archetype = monster ? state.archetypesById[monster.archetypeId] : undefined;
-    if (!monster || !archetype) return state;
-    const rollValue = roll(1, 6);
-    const damage = Math.max(1, archetype.atk + rollValue - state.player.def);
-    const hp = state.player.hp - damage;
-    const nextPlayer = { ...state.player, hp };
-    appendLog(`The ${archetype.name} strikes you for ${damage} damage.`);
-    canvasRef.current?.hitFlash('player');
-    if (damage >= 8) {
-      canvasRef.current?.screenShake?.(240, 6);
-    }
-    if (hp <= 0) {
-      appendLog('You fall to the dungeon floor...');
-    }
-    return { ...state, player: nextPlayer };
+  const startSeededRun = () => {
+    const seed = seedInput.trim();
+    initializeGame(seed || randomSeed());
   };
 
-  const restartGame = () => {
-    initializeGame();
+  const copySeed = () => {
+    if (!game) return;
+    const url = `${window.location.origin}${window.location.pathname}?seed=${encodeURIComponent(game.seed)}`;
+    navigator.clipboard
+      ?.writeText(url)
+      .then(() => appendLog(`Seed link copied: ${game.seed}`))
+      .catch(() => appendLog(`Seed: ${game.seed}`));
   };
 
+  if (pendingRun) {
+    return (
+      <ClassSelect
+        seed={pendingRun.seed}
+        notice={pendingRun.notice}
+        onChoose={startClassRun}
+        onCancel={game ? () => setPendingRun(null) : undefined}
+      />
+    );
+  }
   if (!game) return null;
 
-  const { player, tiles, combat, log, inventory } = game;
-
-  const legendItems: { label: string; style: React.CSSProperties; marker?: 'door' | 'secret' | 'trap' }[] = [
+  const { player, tiles, combat, log, inventory, equipment } = game;
+  const bossInstance = combat.monsterId ? game.monstersById[combat.monsterId] : undefined;
+  const bossArchetype = bossInstance ? game.archetypesById[bossInstance.archetypeId] : undefined;
+  const bossDefinition = bossArchetype ? bossDefinitionFor(bossArchetype.id) : undefined;
+
+  const biome = biomeFor(game.biomeId);
+  const heroClass = heroClassFor(game.heroClass);
+  const levelFloor = xpForLevel(player.level);
+  const levelCeiling = xpForLevel(player.level + 1);
+  const trapPos = adjacentTrap(game);
+  const nearbyTrap = trapPos ? trapsByKind[trapKindOf(tiles[trapPos.y][trapPos.x])] : null;
+  const accent = biome.palette.accent ?? '#7c3aed';
+  const legendItems: {
+    label: string;
+    style: React.CSSProperties;
+    marker?: 'door' | 'locked' | 'key' | 'secret' | 'trap' | 'stairs' | 'rune' | 'hazard';
+  }[] = [
     {
       label: 'Wall',
       style: {
-        backgroundColor: '#070910',
+        backgroundColor: biome.palette.wall ?? '#070910',
         border: '2px solid #111827',
         boxShadow: 'inset 0 0 0 2px rgba(255,255,255,0.08)'
       }
@@ -400,7 +329,7 @@ const NorseDungeonCrawler: React.FC = () => {
     {
       label: 'Room',
       style: {
-        backgroundColor: '#2f3f5b',
+        backgroundColor: biome.palette.room ?? '#2f3f5b',
         border: '1px solid rgba(255,255,255,0.15)',
         backgroundImage:
           'radial-gradient(circle at 20% 30%, rgba(255,255,255,0.15) 0%, rgba(255,255,255,0.15) 6%, transparent 8%), radial-gradient(circle at 70% 70%, rgba(255,255,255,0.1) 0%, rgba(255,255,255,0.1) 5%, transparent 7%)'
@@ -409,13 +338,15 @@ const NorseDungeonCrawler: React.FC = () => {
     {
       label: 'Corridor',
       style: {
-        backgroundColor: '#1b2434',
+        backgroundColor: biome.palette.corridor ?? '#1b2434',
         border: '1px solid rgba(255,255,255,0.12)',
         backgroundImage:
-          'repeating-linear-gradient(45deg, rgba(124,58,237,0.4), rgba(124,58,237,0.4) 6px, transparent 6px, transparent 12px)'
+          `repeating-linear-gradient(45deg, ${accent}66, ${accent}66 6px, transparent 6px, transparent 12px)`
       }
     },
     { label: 'Door', style: { backgroundColor: '#c0a16d', border: '2px solid #2b1f12' }, marker: 'door' },
+    { label: 'Locked door', style: { backgroundColor: '#c0a16d', border: '2px solid #2b1f12' }, marker: 'locked' },
+    { label: 'Key', style: { backgroundColor: '#1b2434', border: '1px solid rgba(255,255,255,0.12)' }, marker: 'key' },
     {
       label: 'Secret door',
       style: { backgroundColor: '#070910', border: '2px dashed #7dd3fc' },
@@ -425,6 +356,21 @@ const NorseDungeonCrawler: React.FC = () => {
       label: 'Trap (revealed)',
       style: { backgroundColor: '#1b2434', border: '2px solid rgba(251,146,60,0.8)' },
       marker: 'trap'
+    },
+    {
+      label: biome.hazard.name,
+      style: { backgroundColor: biome.palette.hazard ?? '#7dd3fc', border: '1px solid rgba(255,255,255,0.15)' },
+      marker: 'hazard'
+    },
+    {
+      label: 'Stairs down',
+      style: { backgroundColor: '#4c3f75', border: '1px solid rgba(255,255,255,0.15)' },
+      marker: 'stairs'
+    },
+    {
+      label: 'Rune stone',
+      style: { backgroundColor: '#2f3f5b', border: '1px solid rgba(255,255,255,0.15)' },
+      marker: 'rune'
     }
   ];
 
@@ -439,6 +385,9 @@ const NorseDungeonCrawler: React.FC = () => {
               <h2 className="text-xl font-bold text-blue-300 mb-3 flex items-center gap-2">
                 <Heart className="w-5 h-5" /> Hero Stats
               </h2>
+              <div className="text-sm text-blue-300 mb-2">
+                {heroClass.name}, {heroClass.epithet.toLowerCase()}
+              </div>
               <div className="grid grid-cols-2 gap-2 text-blue-100">
                 <div className="flex items-center gap-2">
                   <Heart className="w-4 h-4 text-red-400" /> HP: {player.hp}/{player.maxHP}
@@ -452,6 +401,38 @@ const NorseDungeonCrawler: React.FC = () => {
                 <div className="flex items-center gap-2">
                   <Sparkles className="w-4 h-4 text-yellow-300" /> Gold: {player.gold}
                 </div>
+                <div className="col-span-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2">
+                      <Star className="w-4 h-4 text-amber-300" /> Level {player.level}
+                    </span>
+                    <span className="text-xs text-blue-300">
+                      {player.xp - levelFloor} / {levelCeiling - levelFloor} XP
+                    </span>
+                  </div>
+                  <div className="mt-1 h-2 rounded bg-slate-900 overflow-hidden">
+                    <div className="h-full bg-amber-400" style={{ width: `${((player.xp - levelFloor) / (levelCeiling - levelFloor)) * 100}%` }} />
+                  </div>
+                  {player.perks?.length > 0 && (
+                    <div className="mt-1 text-xs text-violet-300">Perks: {player.perks.map((id) => perksById[id].name).join(', ')}</div>
+                  )}
+                </div>
+                {game.keys.length > 0 && (
+                  <div className="col-span-2 flex items-center gap-2">
+                    <KeyRound className="w-4 h-4 text-amber-300" /> {game.keys.map(keyName).join(', ')}
+                  </div>
+                )}
+                {player.trappedTurns > 0 && <div className="col-span-2 text-sm text-rose-300">In a pit ({player.trappedTurns})</div>}
+                {player.statuses?.length > 0 && (
+                  <div className="col-span-2">
+                    <StatusBadges effects={player.statuses} />
+                  </div>
+                )}
+                <div className="col-span-2 flex items-center gap-2">
+                  <Layers className="w-4 h-4 text-violet-300" /> Depth {game.depth}/{MAX_DEPTH}: {realmName(game.depth)}
+                </div>
+                <div className="col-span-2 text-xs text-blue-300">Biome: {biome.name}</div>
+                <div className="col-span-2 text-xs text-blue-300">Layout: {game.generatorId === IMPORTED_MAP ? 'Custom map' : generatorsById[game.generatorId]?.name ?? game.generatorId}</div>
               </div>
             </div>
 
@@ -459,8 +440,63 @@ const NorseDungeonCrawler: React.FC = () => {
               <h2 className="text-xl font-bold text-blue-300 mb-3 flex items-center gap-2">
                 <Gift className="w-5 h-5" /> Inventory
               </h2>
+              <div className="space-y-1 mb-3 text-sm text-blue-100">
+                {EQUIP_SLOTS.map(({ slot, label }) => {
+                  const item = equipment[slot] ? itemsById[equipment[slot]!] : undefined;
+                  return (
+                    <div key={slot} className="flex items-center gap-2">
+                      <span className="w-14 text-blue-300">{label}</span>
+                      <span className="flex-1 truncate" title={item?.description}>
+                        {item ? item.name : <span className="italic text-blue-200/60">none</span>}
+                      </span>
+                      {item && (
+                        <button
+                          onClick={() => dispatch({ type: 'unequip', slot })}
+                          className="text-xs bg-slate-600 hover:bg-slate-500 px-2 py-0.5 rounded"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
               <div className="space-y-2 max-h-48 overflow-y-auto text-blue-100">
-                {inventory.length === 0 ? <p className="text-blue-200 text-sm italic">Empty</p> : inventory.map((item, i) => <div key={i}>• {item}</div>)}
+                {inventory.length === 0 ? (
+                  <p className="text-blue-200 text-sm italic">Empty</p>
+                ) : (
+                  inventory.map((itemId, i) => {
+                    const item = itemsById[itemId];
+                    if (!item) return null;
+                    const detail = [describeBonuses(item.bonuses), item.heal ? `heals ${item.heal}` : '', item.focus ? `+${item.focus} focus` : '']
+                      .filter(Boolean)
+                      .join(', ');
+                    return (
+                      <div key={`${itemId}-${i}`} className="flex items-center gap-2 text-sm">
+                        <div className="flex-1 min-w-0" title={item.description}>
+                          <div className="truncate">{item.name}</div>
+                          {detail && <div className="text-xs text-blue-300 truncate">{detail}</div>}
+                        </div>
+                        {equipSlot(item) && (
+                          <button
+                            onClick={() => dispatch({ type: 'equip', index: i })}
+                            className="text-xs bg-blue-600 hover:bg-blue-500 px-2 py-0.5 rounded"
+                          >
+                            Equip
+                          </button>
+                        )}
+                        {isConsumable(item) && (
+                          <button
+                            onClick={() => dispatch({ type: 'use', index: i })}
+                            className="text-xs bg-emerald-600 hover:bg-emerald-500 px-2 py-0.5 rounded"
+                          >
+                            Use
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
               </div>
             </div>
 
@@ -490,34 +526,184 @@ const NorseDungeonCrawler: React.FC = () => {
               <button onClick={searchAround} className="mt-3 w-full bg-purple-600 hover:bg-purple-500 text-white font-bold py-2 rounded">
                 Search nearby
               </button>
+              <button onClick={closeDoors} className="mt-2 w-full bg-amber-700 hover:bg-amber-600 text-white font-bold py-2 rounded">
+                Close doors
+              </button>
+              <button
+                onClick={disarmTrap}
+                disabled={!nearbyTrap}
+                className="mt-2 w-full bg-orange-700 hover:bg-orange-600 disabled:bg-slate-600 disabled:text-slate-400 text-white font-bold py-2 rounded"
+              >
+                {nearbyTrap ? `Disarm ${nearbyTrap.name.toLowerCase()} (${Math.round(disarmChance(player, nearbyTrap.kind) * 100)}%)` : 'Disarm trap'}
+              </button>
+              <button
+                onClick={useClassAbility}
+                disabled={player.abilityCooldown > 0 || player.hp <= 0}
+                title={heroClass.ability.description}
+                className="mt-2 w-full bg-violet-700 hover:bg-violet-600 disabled:bg-slate-600 disabled:text-slate-400 text-white font-bold py-2 rounded"
+              >
+                {heroClass.ability.name}
+                {player.abilityCooldown > 0 ? ` (ready in ${player.abilityCooldown})` : ''}
+              </button>
+            </div>
+
+            <RuneCasting player={player} onCast={castSpell} />
+
+            <div className="bg-slate-700 rounded-lg p-4 border-2 border-blue-600">
+              <h3 className="text-lg font-bold text-blue-300 mb-2 flex items-center gap-2">
+                <Settings className="w-5 h-5" /> Settings
+              </h3>
+              <label className="block text-sm text-blue-200 mb-1" htmlFor="generator-setting">
+                Floor layout
+              </label>
+              <select
+                id="generator-setting"
+                value={game.generatorSetting}
+                onChange={(e) => changeGeneratorSetting(e.target.value)}
+                className="w-full bg-slate-900 text-blue-100 text-sm rounded px-2 py-1 border border-slate-600"
+              >
+                <option value={VARIED_GENERATORS}>Varied (new each floor)</option>
+                {generators.map((g) => (
+                  <option key={g.id} value={g.id}>
+                    {g.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={openEditor}
+                className="mt-3 w-full bg-slate-600 hover:bg-slate-500 text-blue-100 text-sm py-2 rounded flex items-center justify-center gap-1"
+              >
+                <PencilRuler className="w-4 h-4" /> Level editor
+              </button>
+            </div>
+
+            <div className="bg-slate-700 rounded-lg p-4 border-2 border-blue-600">
+              <h3 className="text-lg font-bold text-blue-300 mb-2 flex items-center gap-2">
+                <Dices className="w-5 h-5" /> Run Seed
+              </h3>
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-blue-100 font-mono text-sm truncate flex-1">{game.seed}</span>
+                <button onClick={copySeed} title="Copy seed link" className="bg-slate-600 hover:bg-slate-500 text-blue-100 p-2 rounded">
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+              <input
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && startSeededRun()}
+                placeholder="Enter a seed"
+                className="w-full bg-slate-900 text-blue-100 font-mono text-sm rounded px-2 py-1 border border-slate-600"
+              />
+              <button onClick={startSeededRun} className="mt-2 w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 rounded">
+                New run from seed
+              </button>
+              <div className="mt-2 grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => downloadSave(game)}
+                  className="bg-slate-600 hover:bg-slate-500 text-blue-100 text-sm py-2 rounded flex items-center justify-center gap-1"
+                >
+                  <Download className="w-4 h-4" /> Save
+                </button>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="bg-slate-600 hover:bg-slate-500 text-blue-100 text-sm py-2 rounded flex items-center justify-center gap-1"
+                >
+                  <Upload className="w-4 h-4" /> Load
+                </button>
+                <button
+                  onClick={() => downloadAsciiMap(mapFromGame(game), `norse-crawler-${game.seed}-depth${game.depth}.txt`)}
+                  title="Download this floor as a text map"
+                  className="bg-slate-600 hover:bg-slate-500 text-blue-100 text-sm py-2 rounded flex items-center justify-center gap-1"
+                >
+                  <FileText className="w-4 h-4" /> Export map
+                </button>
+                <button
+                  onClick={copyMap}
+                  title="Copy this floor as a text map, e.g. for a bug report"
+                  className="bg-slate-600 hover:bg-slate-500 text-blue-100 text-sm py-2 rounded flex items-center justify-center gap-1"
+                >
+                  <ClipboardCopy className="w-4 h-4" /> Copy map
+                </button>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) loadSaveFile(file);
+                  e.target.value = '';
+                }}
+              />
             </div>
           </div>
 
           <div className="bg-slate-700 rounded-lg p-4 border-2 border-blue-600">
             <h2 className="text-xl font-bold text-blue-300 mb-3 flex items-center gap-2">
-              <Map className="w-5 h-5" /> Dungeon Map
+              {editing ? <PencilRuler className="w-5 h-5" /> : <Map className="w-5 h-5" />} {editing ? 'Level Editor' : 'Dungeon Map'}
             </h2>
-            <div className="bg-slate-950 p-3 rounded border-2 border-slate-800">
-              <DungeonCanvas ref={canvasRef} tiles={tiles} player={player} combat={combat} tileSize={TILE_SIZE} />
-              <div className="mt-3 grid grid-cols-2 md:grid-cols-3 gap-2 text-xs text-blue-200">
-                {legendItems.map((item) => (
-                  <div key={item.label} className="flex items-center gap-2">
-                    <div className="w-9 h-6 rounded-sm relative overflow-hidden" style={item.style}>
-                      {item.marker === 'door' && (
-                        <div className="absolute inset-1 rounded-sm border border-amber-900 bg-amber-200/80" />
-                      )}
-                      {item.marker === 'secret' && (
-                        <div className="absolute inset-1 rounded-sm border border-sky-300 border-dashed" />
-                      )}
-                      {item.marker === 'trap' && (
-                        <div className="absolute inset-0 flex items-center justify-center text-amber-400 text-[11px] leading-none">▲</div>
-                      )}
+            {editing && editorMap ? (
+              <LevelEditor
+                map={editorMap}
+                onChange={setEditorMap}
+                onPlayTest={playTestDraft}
+                onLoadCurrentFloor={() => setEditorMap(draftFromMap(mapFromGame(game)))}
+                onClose={() => setEditing(false)}
+              />
+            ) : (
+              <div
+                className="bg-slate-950 p-3 rounded border-2 border-slate-800"
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={handleMapDrop}
+                title="Drop a text map or save file here to play it"
+              >
+                <DungeonCanvas
+                  ref={canvasRef}
+                  tiles={tiles}
+                  player={player}
+                  combat={combat}
+                  tileSize={TILE_SIZE}
+                  viewport={VIEWPORT}
+                  travelPath={travelPath}
+                  onTileClick={travelTo}
+                  biomeId={game.biomeId}
+                />
+                <div className="mt-3 grid grid-cols-2 md:grid-cols-3 gap-2 text-xs text-blue-200">
+                  {legendItems.map((item) => (
+                    <div key={item.label} className="flex items-center gap-2">
+                      <div className="w-9 h-6 rounded-sm relative overflow-hidden" style={item.style}>
+                        {item.marker === 'door' && (
+                          <div className="absolute inset-1 rounded-sm border border-amber-900 bg-amber-200/80" />
+                        )}
+                        {item.marker === 'locked' && (
+                          <div className="absolute inset-0 flex items-center justify-center text-[11px] leading-none">🔒</div>
+                        )}
+                        {item.marker === 'key' && (
+                          <div className="absolute inset-0 flex items-center justify-center text-slate-200 text-[11px] leading-none">⚷</div>
+                        )}
+                        {item.marker === 'secret' && (
+                          <div className="absolute inset-1 rounded-sm border border-sky-300 border-dashed" />
+                        )}
+                        {item.marker === 'trap' && (
+                          <div className="absolute inset-0 flex items-center justify-center text-amber-400 text-[11px] leading-none">▲</div>
+                        )}
+                        {item.marker === 'rune' && (
+                          <div className="absolute inset-0 flex items-center justify-center text-sky-300 text-[11px] leading-none">ᚠ</div>
+                        )}
+                        {item.marker === 'hazard' && (
+                          <div className="absolute inset-0 flex items-center justify-center text-white/80 text-[11px] leading-none">!</div>
+                        )}
+                        {item.marker === 'stairs' && (
+                          <div className="absolute inset-0 flex items-center justify-center text-violet-200 text-[11px] leading-none">≡</div>
+                        )}
+                      </div>
+                      <span>{item.label}</span>
                     </div>
-                    <span>{item.label}</span>
-                  </div>
-                ))}
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
           </div>
 
           <div className="bg-slate-700 rounded-lg p-4 border-2 border-blue-600 flex flex-col h-full">
@@ -534,26 +720,75 @@ const NorseDungeonCrawler: React.FC = () => {
               <div ref={logEndRef} />
             </div>
 
-            {combat.active && combat.monsterId && (
+            {combat.active && combat.monsterId && bossDefinition && bossInstance && bossArchetype && (
+              <BossCombatPanel monster={bossInstance} archetype={bossArchetype} definition={bossDefinition} combat={combat}>
+                <CombatActions game={game} archetype={bossArchetype} onAction={dispatch} attackClassName="bg-sky-600 hover:bg-sky-500" />
+              </BossCombatPanel>
+            )}
+
+            {combat.active && combat.monsterId && !bossDefinition && (
               <div className="mt-4 bg-red-900 rounded p-3 border-2 border-red-600">
                 <h3 className="font-bold text-red-200 mb-2">⚔️ Combat!</h3>
                 {(() => {
                   const instance = game.monstersById[combat.monsterId!];
                   const archetype = instance ? game.archetypesById[instance.archetypeId] : null;
                   return (
-                    <div className="text-red-100 mb-2">
-                      <div className="font-bold">{archetype?.name ?? 'Monster'}</div>
-                      <div>HP: {instance?.hp ?? '?'} / {archetype?.maxHP ?? '?'}</div>
-                      <div>ATK: {archetype?.atk ?? '?'} | DEF: {archetype?.def ?? '?'}</div>
-                    </div>
+                    <>
+                      <div className="text-red-100 mb-2">
+                        <div className="font-bold">{archetype?.name ?? 'Monster'}</div>
+                        <div>HP: {instance?.hp ?? '?'} / {archetype?.maxHP ?? '?'}</div>
+                        <div>ATK: {archetype?.atk ?? '?'} | DEF: {archetype?.def ?? '?'}</div>
+                        {combat.stunned && <div className="text-amber-300 text-sm">Stunned</div>}
+                        <StatusBadges effects={instance?.statuses} />
+                      </div>
+                      {archetype && (
+                        <CombatActions game={game} archetype={archetype} onAction={dispatch} attackClassName="bg-red-600 hover:bg-red-500" />
+                      )}
+                    </>
                   );
                 })()}
-                <button onClick={resolvePlayerAttack} className="w-full bg-red-600 hover:bg-red-500 text-white font-bold py-2 rounded">
-                  Attack! (Roll Dice)
+              </div>
+            )}
+
+            {game.riddle && !game.combat.active && (
+              <div className="mt-4 bg-indigo-900 rounded p-3 border-2 border-sky-500">
+                <h3 className="font-bold text-sky-200 mb-2">ᚱ Rune Stone Riddle</h3>
+                <p className="text-sky-100 text-sm italic mb-2">"{riddlesById[game.riddle.riddleId]?.question}"</p>
+                <input
+                  value={riddleAnswer}
+                  onChange={(e) => setRiddleAnswer(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && submitRiddleAnswer()}
+                  placeholder="Your answer"
+                  className="w-full bg-slate-900 text-sky-100 text-sm rounded px-2 py-1 border border-sky-700"
+                />
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  <button onClick={submitRiddleAnswer} className="bg-sky-600 hover:bg-sky-500 text-white font-bold py-2 rounded">
+                    Answer
+                  </button>
+                  <button
+                    onClick={() => dispatch({ type: 'leaveRiddle' })}
+                    className="bg-slate-600 hover:bg-slate-500 text-white font-bold py-2 rounded"
+                  >
+                    Walk away
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {game.victory && (
+              <div className="mt-4 bg-amber-900 rounded p-4 border-2 border-amber-500 text-center">
+                <h3 className="font-bold text-amber-100 text-xl mb-2">🏆 Victorious 🏆</h3>
+                <p className="text-amber-200 mb-3">You have conquered all nine realms with {player.gold} gold.</p>
+                <button onClick={restartGame} className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-4 rounded">
+                  New Saga
                 </button>
               </div>
             )}
 
+            {player.pendingLevelUps > 0 && player.hp > 0 && (
+              <LevelUpDialog player={player} onChoose={(choiceId) => dispatch({ type: 'chooseLevelUp', choiceId })} />
+            )}
+
             {player.hp <= 0 && (
               <div className="mt-4 bg-gray-900 rounded p-4 border-2 border-gray-600 text-center">
                 <h3 className="font-bold text-gray-200 text-xl mb-2">💀 Defeated 💀</h3>
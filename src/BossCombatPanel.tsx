@@ -0,0 +1,57 @@
+import React from 'react';
+import { Snowflake } from 'lucide-react';
+import { BossDefinition, initialBossState, specialNames } from './boss';
+import StatusBadges from './StatusBadges';
+import { CombatState, MonsterArchetype, MonsterInstance } from './types';
+
+interface BossCombatPanelProps {
+  monster: MonsterInstance;
+  archetype: MonsterArchetype;
+  definition: BossDefinition;
+  combat: CombatState;
+  children?: React.ReactNode;
+}
+
+/** Combat panel for scripted bosses: phase name, a segmented HP bar and the telegraphed special. */
+const BossCombatPanel: React.FC<BossCombatPanelProps> = ({ monster, archetype, definition, combat, children }) => {
+  const boss = combat.boss ?? initialBossState();
+  const phase = definition.phases[boss.phase];
+  const hpPercent = Math.max(0, Math.min(100, (monster.hp / archetype.maxHP) * 100));
+
+  return (
+    <div className="mt-4 bg-gradient-to-b from-sky-950 to-slate-900 rounded p-3 border-2 border-sky-400 shadow-[0_0_18px_rgba(125,211,252,0.35)]">
+      <h3 className="font-bold text-sky-200 mb-1 flex items-center gap-2">
+        <Snowflake className="w-5 h-5" /> {archetype.name}
+      </h3>
+      <div className="text-xs uppercase tracking-wider text-sky-300 mb-2">
+        Phase {boss.phase + 1}/{definition.phases.length}: {phase.name}
+      </div>
+
+      <div className="relative h-3 rounded bg-slate-800 border border-sky-800 overflow-hidden mb-1">
+        <div className="h-full bg-gradient-to-r from-sky-500 to-cyan-200" style={{ width: `${hpPercent}%` }} />
+        {definition.phases.slice(1).map((p) => (
+          <div key={p.name} className="absolute top-0 h-full w-px bg-slate-950" style={{ left: `${p.threshold * 100}%` }} />
+        ))}
+      </div>
+      <div className="text-sky-100 text-sm mb-2">
+        HP: {monster.hp} / {archetype.maxHP} | ATK: {archetype.atk + phase.atkBonus} | DEF: {archetype.def}
+      </div>
+
+      {boss.telegraph && (
+        <div className="mb-2 rounded bg-amber-900/70 border border-amber-500 text-amber-100 text-sm px-2 py-1 animate-pulse">
+          ⚠ Incoming: {specialNames[boss.telegraph]}
+        </div>
+      )}
+      {combat.stunned && <div className="mb-2 text-amber-300 text-sm">Reeling from your shield bash</div>}
+      {monster.statuses?.length > 0 && (
+        <div className="mb-2">
+          <StatusBadges effects={monster.statuses} />
+        </div>
+      )}
+
+      {children}
+    </div>
+  );
+};
+
+export default BossCombatPanel;
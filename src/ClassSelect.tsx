@@ -0,0 +1,76 @@
+import React from 'react';
+import { Heart, Shield, Sparkles, Sword } from 'lucide-react';
+import { createHero, heroClasses } from './heroClasses';
+import { itemsById } from './items';
+import { runesById } from './runes';
+import { HeroClassId } from './types';
+
+interface ClassSelectProps {
+  seed: string;
+  /** Shown above the choices, e.g. why the previous run could not start. */
+  notice?: string;
+  onChoose: (heroClass: HeroClassId) => void;
+  /** Return to the run in progress; omitted when there is none. */
+  onCancel?: () => void;
+}
+
+/** Pick the hero for a new run: starting stats (gear included), kit, runes and class ability. */
+const ClassSelect: React.FC<ClassSelectProps> = ({ seed, notice, onChoose, onCancel }) => (
+  <div className="min-h-screen bg-gradient-to-b from-slate-900 to-slate-800 p-4 flex flex-col items-center justify-center">
+    <h1 className="text-3xl font-bold text-blue-300 mb-1">Choose your hero</h1>
+    <p className="text-sm text-blue-200 mb-4">Seed: {seed}</p>
+    {notice && <p className="text-sm text-amber-300 mb-4">{notice}</p>}
+    <div className="grid md:grid-cols-3 gap-4 max-w-5xl w-full">
+      {heroClasses.map((heroClass) => {
+        const { player, inventory } = createHero(heroClass, { x: 0, y: 0 });
+        return (
+          <button
+            key={heroClass.id}
+            onClick={() => onChoose(heroClass.id)}
+            className="text-left bg-slate-700 hover:bg-slate-600 rounded-lg p-4 border-2 border-blue-600 hover:border-blue-300 flex flex-col gap-2"
+          >
+            <div>
+              <div className="text-xl font-bold text-blue-100">{heroClass.name}</div>
+              <div className="text-xs uppercase tracking-wide text-blue-300">{heroClass.epithet}</div>
+            </div>
+            <p className="text-sm text-blue-200">{heroClass.description}</p>
+            <div className="flex gap-4 text-blue-100 text-sm">
+              <span className="flex items-center gap-1">
+                <Heart className="w-4 h-4 text-red-400" /> {player.maxHP}
+              </span>
+              <span className="flex items-center gap-1">
+                <Sword className="w-4 h-4 text-orange-400" /> {player.atk}
+              </span>
+              <span className="flex items-center gap-1">
+                <Shield className="w-4 h-4 text-cyan-400" /> {player.def}
+              </span>
+              <span className="flex items-center gap-1" title="Focus for rune spells">
+                <Sparkles className="w-4 h-4 text-violet-300" /> {player.maxFocus}
+              </span>
+            </div>
+            <div className="text-xs text-blue-200">
+              Kit: {[...heroClass.gear, ...inventory].map((id) => itemsById[id].name).join(', ')}
+            </div>
+            <div className="text-xs text-blue-200">
+              Runes: {heroClass.runes.length ? heroClass.runes.map((id) => `${runesById[id].glyph} ${runesById[id].name}`).join(', ') : 'none'}
+            </div>
+            <div className="rounded bg-slate-900/70 border border-violet-500 px-2 py-1 text-sm">
+              <span className="font-bold text-violet-300">{heroClass.ability.name}</span>
+              <span className="text-blue-200">
+                {' '}
+                ({heroClass.ability.cooldown}-turn recharge): {heroClass.ability.description}
+              </span>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+    {onCancel && (
+      <button onClick={onCancel} className="mt-4 bg-slate-600 hover:bg-slate-500 text-blue-100 text-sm py-2 px-4 rounded">
+        Back to the current run
+      </button>
+    )}
+  </div>
+);
+
+export default ClassSelect;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { DEFEND_BONUS, fleeChance, GameAction } from './engine';
+import { isConsumable, itemsById } from './items';
+import StatusBadges from './StatusBadges';
+import { GameState, MonsterArchetype } from './types';
+
+interface CombatActionsProps {
+  game: GameState;
+  archetype: MonsterArchetype;
+  onAction: (action: GameAction) => void;
+  /** Tailwind classes for the main Attack button, so it matches the surrounding panel. */
+  attackClassName: string;
+}
+
+const secondary = 'text-sm font-bold py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-blue-100 disabled:opacity-40 disabled:hover:bg-slate-700';
+
+/** The hero's options for one round of a fight. Every one of them is answered by the monster. */
+const CombatActions: React.FC<CombatActionsProps> = ({ game, archetype, onAction, attackClassName }) => {
+  const cooldown = game.combat.bashCooldown ?? 0;
+  const isBoss = archetype.tier === 'boss';
+  const consumables = game.inventory.map((id, index) => ({ item: itemsById[id], index })).filter(({ item }) => item && isConsumable(item));
+
+  return (
+    <div className="space-y-2">
+      {game.player.statuses?.length > 0 && (
+        <div className="flex items-center gap-2 text-xs text-blue-100">
+          You: <StatusBadges effects={game.player.statuses} />
+        </div>
+      )}
+      <button onClick={() => onAction({ type: 'attack' })} className={`w-full text-white font-bold py-2 rounded ${attackClassName}`}>
+        Attack! (Roll Dice)
+      </button>
+      <div className="grid grid-cols-3 gap-2">
+        <button onClick={() => onAction({ type: 'defend' })} title={`+${DEFEND_BONUS} DEF against the next blow`} className={secondary}>
+          Defend
+        </button>
+        <button
+          onClick={() => onAction({ type: 'shieldBash' })}
+          disabled={cooldown > 0}
+          title="A weaker blow that stuns the monster out of its next attack"
+          className={secondary}
+        >
+          {cooldown > 0 ? `Bash (${cooldown})` : 'Shield bash'}
+        </button>
+        <button
+          onClick={() => onAction({ type: 'flee' })}
+          disabled={isBoss}
+          title={isBoss ? 'There is no escaping this foe' : 'The monster gets a free swing as you turn'}
+          className={secondary}
+        >
+          Flee{isBoss ? '' : ` (${Math.round(fleeChance(game.player, archetype) * 100)}%)`}
+        </button>
+      </div>
+      {consumables.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {consumables.map(({ item, index }) => (
+            <button
+              key={`${item.id}-${index}`}
+              onClick={() => onAction({ type: 'use', index })}
+              title={item.description}
+              className="text-xs bg-emerald-700 hover:bg-emerald-600 text-white px-2 py-0.5 rounded"
+            >
+              Use {item.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CombatActions;
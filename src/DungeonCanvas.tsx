@@ -1,19 +1,37 @@
 import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
-import { CombatState, PlayerState, Tile } from './types';
+import { CombatState, ParticleKind, PlayerState, Tile, TrapKind } from './types';
+import { BOSS_LOCK } from './dungeonGen';
+import { Biome, biomeFor, DEFAULT_BIOME } from './biomes';
+import { trapKindOf } from './traps';
 
 interface DungeonCanvasProps {
   tiles: Tile[][];
   player: PlayerState;
   combat: CombatState;
   tileSize?: number;
+  /** Remaining click-to-travel route, drawn as a trail of markers. */
+  travelPath?: { x: number; y: number }[];
+  onTileClick?: (x: number, y: number) => void;
+  /** Size of the visible window in tiles; the camera scrolls over larger maps. Defaults to the whole map. */
+  viewport?: { width: number; height: number };
+  /** Biome whose palette, floor decoration and hazard art to draw with (see `biomes.ts`). */
+  biomeId?: string;
 }
 
 export interface DungeonCanvasHandle {
-  spawnParticles: (x: number, y: number, kind?: 'treasure' | 'monster') => void;
+  spawnParticles: (x: number, y: number, kind?: ParticleKind) => void;
   hitFlash: (target: 'player' | 'monster') => void;
   screenShake?: (duration?: number, intensity?: number) => void;
 }
 
+/** Half-open tile range [x0, x1) x [y0, y1) to draw this frame. */
+interface TileBounds {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
 interface Particle {
   x: number;
   y: number;
@@ -33,12 +51,44 @@ const palette: Record<string, string> = {
   corridor: '#1b2434',
   door: '#c0a16d',
   secretDoor: '#7dd3fc',
+  openDoor: '#1b2434',
   trap: '#f97316',
   treasure: '#facc15',
   start: '#22c55e',
-  boss: '#ef4444'
+  boss: '#ef4444',
+  stairs: '#4c3f75',
+  runeStone: '#2f3f5b',
+  accent: '#7c3aed',
+  hazard: '#7dd3fc'
+};
+
+/** Colour of each kind of particle burst; spell bursts are larger (see `SPELL_BURST`). */
+const particleColors: Record<ParticleKind, string> = {
+  treasure: '#facc15',
+  monster: '#e11d48',
+  fire: '#f97316',
+  frost: '#7dd3fc',
+  ward: '#a78bfa',
+  light: '#fef08a',
+  reveal: '#34d399'
 };
 
+/** Particles per burst, and the extra for spells so a cast reads at a glance. */
+const BURST = 16;
+const SPELL_BURST = 28;
+
+/** Floor colour under each kind of revealed trap. */
+const trapPalette: Record<TrapKind, string> = {
+  spike: '#f97316',
+  frostRune: '#0e7490',
+  pit: '#292524',
+  alarm: '#a16207',
+  poisonDart: '#3f6212'
+};
+
+/** The default palette with a biome's colours laid over it. */
+const paletteFor = (biome: Biome): Record<string, string> => ({ ...palette, ...biome.palette });
+
 const RenderSettings = {
   wallHeightPx: 12,
   shadowStrength: 0.35,
@@ -48,12 +98,27 @@ const RenderSettings = {
 
 const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
 const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+/** `#rrggbb` plus an alpha channel. */
+const withAlpha = (hex: string, alpha: number) => `${hex}${Math.round(clamp(alpha, 0, 1) * 255).toString(16).padStart(2, '0')}`;
 const pseudoRandom = (x: number, y: number, seed = 1) => {
   const s = Math.sin(x * 374761393 + y * 668265263 + seed * 31.4159) * 43758.5453;
   return s - Math.floor(s);
 };
 
-const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ tiles, player, combat, tileSize = 48 }, ref) => {
+/** Viewport dimensions in tiles, never larger than the map itself. */
+const viewportSize = (tiles: Tile[][], viewport?: { width: number; height: number }) => {
+  const width = tiles[0]?.length ?? 0;
+  const height = tiles.length;
+  return { width: Math.min(width, viewport?.width ?? width), height: Math.min(height, viewport?.height ?? height) };
+};
+
+/** Top-left tile of a viewport centred on `focus`, clamped so it never shows past the map edge. */
+const cameraFor = (focus: { x: number; y: number }, view: { width: number; height: number }, tiles: Tile[][]) => ({
+  x: clamp(focus.x - view.width / 2, 0, Math.max(0, (tiles[0]?.length ?? 0) - view.width)),
+  y: clamp(focus.y - view.height / 2, 0, Math.max(0, tiles.length - view.height))
+});
+
+const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ tiles, player, combat, tileSize = 48, travelPath = [], onTileClick, viewport, biomeId }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const particlesRef = useRef<Particle[]>([]);
   const tilesRef = useRef<Tile[][]>(tiles);
@@ -64,11 +129,17 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
   const shakeRef = useRef<{ until: number; intensity: number }>({ until: 0, intensity: 0 });
   const dprRef = useRef<number>(1);
   const tileSizeRef = useRef<number>(tileSize);
+  const travelPathRef = useRef<{ x: number; y: number }[]>(travelPath);
+  const viewportRef = useRef(viewport);
+  /** Top-left corner of the view in tile units, updated every frame from `renderPlayerRef`. */
+  const cameraRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
+  const biomeRef = useRef<Biome>(biomeFor(biomeId ?? DEFAULT_BIOME));
+  const colorsRef = useRef<Record<string, string>>(paletteFor(biomeRef.current));
 
   useImperativeHandle(ref, () => ({
     spawnParticles: (x, y, kind = 'treasure') => {
-      const color = kind === 'treasure' ? '#facc15' : '#e11d48';
-      const burst: Particle[] = Array.from({ length: 16 }, () => {
+      const color = particleColors[kind];
+      const burst: Particle[] = Array.from({ length: kind === 'treasure' || kind === 'monster' ? BURST : SPELL_BURST }, () => {
         const angle = Math.random() * Math.PI * 2;
         const speed = 0.2 + Math.random() * 0.6;
         return {
@@ -100,14 +171,13 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
     if (!canvas || !ctx) return;
     const dpr = window.devicePixelRatio || 1;
     dprRef.current = dpr;
-    const width = tiles[0]?.length ?? 0;
-    const height = tiles.length;
+    const { width, height } = viewportSize(tiles, viewport);
     canvas.width = width * tileSize * dpr;
     canvas.height = height * tileSize * dpr;
     canvas.style.width = `${width * tileSize}px`;
     canvas.style.height = `${height * tileSize}px`;
     ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-  }, [tiles, tileSize]);
+  }, [tiles, tileSize, viewport?.width, viewport?.height]);
 
   useEffect(() => {
     playerRef.current = player;
@@ -121,6 +191,32 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
     tileSizeRef.current = tileSize;
   }, [tileSize]);
 
+  useEffect(() => {
+    travelPathRef.current = travelPath;
+  }, [travelPath]);
+
+  useEffect(() => {
+    viewportRef.current = viewport;
+  }, [viewport?.width, viewport?.height]);
+
+  useEffect(() => {
+    biomeRef.current = biomeFor(biomeId ?? DEFAULT_BIOME);
+    colorsRef.current = paletteFor(biomeRef.current);
+  }, [biomeId]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !onTileClick) return;
+    const rect = canvas.getBoundingClientRect();
+    const width = tilesRef.current[0]?.length ?? 0;
+    const height = tilesRef.current.length;
+    const view = viewportSize(tilesRef.current, viewportRef.current);
+    // The canvas may be scaled by CSS, so map through the displayed size rather than tileSize.
+    const x = Math.floor(cameraRef.current.x + ((e.clientX - rect.left) / rect.width) * view.width);
+    const y = Math.floor(cameraRef.current.y + ((e.clientY - rect.top) / rect.height) * view.height);
+    if (x >= 0 && y >= 0 && x < width && y < height) onTileClick(x, y);
+  };
+
   const getLighting = (tile: Tile) => (tile.visible ? 1 : tile.explored ? 0.55 : 0.18);
 
   const getDisplayType = (tile: Tile) =>
@@ -132,6 +228,8 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
       ? tile.revealed
         ? 'door'
         : 'wall'
+      : tile.type === 'door' && tile.open
+      ? 'openDoor'
       : tile.type;
 
   const isPassableDisplayType = (type: string) => type !== 'wall' && type !== 'secretDoor';
@@ -144,7 +242,8 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
     const py = y * size;
     const radius = 8;
     const lighting = getLighting(tile);
-    const baseColor = palette[displayType] ?? palette.room;
+    const colors = colorsRef.current;
+    const baseColor = displayType === 'trap' ? trapPalette[trapKindOf(tile)] : colors[displayType] ?? colors.room;
 
     ctx.save();
     roundedRectPath(ctx, px + 2, py + 2, size - 4, size - 4, radius);
@@ -175,20 +274,15 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
     ctx.fill();
 
     if (displayType === 'room') {
-      ctx.fillStyle = `rgba(255,255,255,${0.12 * lighting})`;
-      for (let i = 0; i < 6; i++) {
-        const ox = pseudoRandom(x + i * 3, y + i * 7, 2);
-        const oy = pseudoRandom(x + i * 5, y + i * 11, 3);
-        ctx.beginPath();
-        ctx.arc(px + size * (0.15 + ox * 0.7), py + size * (0.2 + oy * 0.6), size * (0.01 + ox * 0.015), 0, Math.PI * 2);
-        ctx.fill();
-      }
+      drawRoomDecoration(ctx, x, y, size, lighting);
+    } else if (displayType === 'hazard') {
+      drawHazard(ctx, x, y, size, lighting);
     } else if (displayType === 'corridor') {
       ctx.save();
       ctx.translate(px + size / 2, py + size / 2);
       const angle = pseudoRandom(x, y) > 0.5 ? Math.PI / 4 : -Math.PI / 4;
       ctx.rotate(angle);
-      ctx.strokeStyle = `rgba(124,58,237,${0.28 * lighting})`;
+      ctx.strokeStyle = withAlpha(colors.accent, 0.28 * lighting);
       ctx.lineWidth = 1.4;
       for (let i = -size; i < size; i += 6) {
         ctx.beginPath();
@@ -204,22 +298,18 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
     roundedRectPath(ctx, px + 1.5, py + 1.5, size - 3, size - 3, radius);
     ctx.stroke();
 
-    if (tile.type === 'trap' && tile.revealed) {
-      ctx.strokeStyle = '#fb923c';
-      ctx.lineWidth = 2.8;
-      ctx.beginPath();
-      ctx.moveTo(px + size * 0.22, py + size * 0.78);
-      ctx.lineTo(px + size * 0.5, py + size * 0.18);
-      ctx.lineTo(px + size * 0.78, py + size * 0.78);
-      ctx.closePath();
-      ctx.stroke();
-      ctx.beginPath();
-      ctx.moveTo(px + size * 0.28, py + size * 0.66);
-      ctx.lineTo(px + size * 0.5, py + size * 0.35);
-      ctx.lineTo(px + size * 0.72, py + size * 0.66);
+    if (tile.vault) {
+      // Secret vault floors catch the light with a faint golden edge.
+      ctx.strokeStyle = `rgba(250,204,21,${0.35 * lighting})`;
+      ctx.lineWidth = 1.5;
+      roundedRectPath(ctx, px + 4, py + 4, size - 8, size - 8, radius - 2);
       ctx.stroke();
     }
 
+    if (tile.type === 'trap' && tile.revealed) {
+      drawTrap(ctx, trapKindOf(tile), x, y, size, !!tile.triggered);
+    }
+
     if (tile.type === 'treasure') {
       const g = ctx.createLinearGradient(px, py, px, py + size);
       g.addColorStop(0, '#f8e7a6');
@@ -252,6 +342,79 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
       ctx.stroke();
     }
 
+    if (tile.type === 'stairs') {
+      // Descending steps: progressively narrower, darker bars toward the bottom.
+      for (let i = 0; i < 4; i++) {
+        const inset = size * (0.18 + i * 0.06);
+        ctx.fillStyle = `rgba(${220 - i * 45},${210 - i * 45},255,${0.85 * lighting + 0.15})`;
+        ctx.fillRect(px + inset, py + size * (0.22 + i * 0.15), size - inset * 2, size * 0.09);
+      }
+    }
+
+    if (displayType === 'openDoor') {
+      // Door swung back against the jamb.
+      ctx.fillStyle = colors.door;
+      ctx.strokeStyle = '#2b1f12';
+      ctx.lineWidth = 1.5;
+      ctx.fillRect(px + size * 0.1, py + size * 0.12, size * 0.12, size * 0.76);
+      ctx.strokeRect(px + size * 0.1, py + size * 0.12, size * 0.12, size * 0.76);
+    }
+
+    if (tile.keyFor && tile.explored) {
+      ctx.strokeStyle = tile.keyFor === BOSS_LOCK ? '#fca5a5' : '#e5e7eb';
+      ctx.lineWidth = 2.4;
+      ctx.beginPath();
+      ctx.arc(px + size * 0.36, py + size * 0.5, size * 0.1, 0, Math.PI * 2);
+      ctx.moveTo(px + size * 0.46, py + size * 0.5);
+      ctx.lineTo(px + size * 0.76, py + size * 0.5);
+      ctx.moveTo(px + size * 0.68, py + size * 0.5);
+      ctx.lineTo(px + size * 0.68, py + size * 0.6);
+      ctx.moveTo(px + size * 0.76, py + size * 0.5);
+      ctx.lineTo(px + size * 0.76, py + size * 0.62);
+      ctx.stroke();
+    }
+
+    if (tile.frozenTurns) {
+      // Boss-frozen ground: pale sheen plus a few hairline cracks.
+      ctx.fillStyle = `rgba(186,230,253,${0.18 + 0.08 * tile.frozenTurns})`;
+      roundedRectPath(ctx, px + 2, py + 2, size - 4, size - 4, radius);
+      ctx.fill();
+      ctx.strokeStyle = 'rgba(240,249,255,0.7)';
+      ctx.lineWidth = 1.2;
+      ctx.beginPath();
+      ctx.moveTo(px + size * 0.2, py + size * (0.3 + pseudoRandom(x, y, 5) * 0.4));
+      ctx.lineTo(px + size * 0.5, py + size * 0.5);
+      ctx.lineTo(px + size * 0.8, py + size * (0.2 + pseudoRandom(x, y, 6) * 0.5));
+      ctx.moveTo(px + size * 0.5, py + size * 0.5);
+      ctx.lineTo(px + size * (0.35 + pseudoRandom(x, y, 7) * 0.3), py + size * 0.85);
+      ctx.stroke();
+    }
+
+    if (tile.type === 'runeStone') {
+      // Standing stone with a carved rune that glows until its riddle has been answered.
+      ctx.fillStyle = '#6b7280';
+      ctx.strokeStyle = '#1f2937';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(px + size * 0.32, py + size * 0.82);
+      ctx.lineTo(px + size * 0.3, py + size * 0.3);
+      ctx.quadraticCurveTo(px + size * 0.5, py + size * 0.08, px + size * 0.7, py + size * 0.3);
+      ctx.lineTo(px + size * 0.68, py + size * 0.82);
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+      ctx.strokeStyle = tile.triggered ? 'rgba(148,163,184,0.5)' : `rgba(125,211,252,${0.5 + 0.5 * lighting})`;
+      ctx.lineWidth = 2.2;
+      ctx.beginPath();
+      ctx.moveTo(px + size * 0.5, py + size * 0.28);
+      ctx.lineTo(px + size * 0.5, py + size * 0.72);
+      ctx.moveTo(px + size * 0.5, py + size * 0.36);
+      ctx.lineTo(px + size * 0.6, py + size * 0.46);
+      ctx.moveTo(px + size * 0.5, py + size * 0.5);
+      ctx.lineTo(px + size * 0.6, py + size * 0.6);
+      ctx.stroke();
+    }
+
     if (tile.type === 'start' || tile.type === 'boss') {
       const ring = ctx.createRadialGradient(
         px + size / 2,
@@ -270,6 +433,211 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
     ctx.restore();
   };
 
+  /** Icon for a revealed trap; sprung traps are drawn faded. */
+  const drawTrap = (ctx: CanvasRenderingContext2D, kind: TrapKind, x: number, y: number, size: number, sprung: boolean) => {
+    const px = x * size;
+    const py = y * size;
+    const cx = px + size / 2;
+    const cy = py + size / 2;
+    ctx.save();
+    ctx.globalAlpha = sprung ? 0.5 : 1;
+    ctx.lineWidth = 2.8;
+
+    if (kind === 'spike') {
+      ctx.strokeStyle = '#fb923c';
+      ctx.beginPath();
+      ctx.moveTo(px + size * 0.22, py + size * 0.78);
+      ctx.lineTo(px + size * 0.5, py + size * 0.18);
+      ctx.lineTo(px + size * 0.78, py + size * 0.78);
+      ctx.closePath();
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(px + size * 0.28, py + size * 0.66);
+      ctx.lineTo(px + size * 0.5, py + size * 0.35);
+      ctx.lineTo(px + size * 0.72, py + size * 0.66);
+      ctx.stroke();
+    } else if (kind === 'frostRune') {
+      // A ring around Isa, the ice rune, with frost ticks at the compass points.
+      ctx.strokeStyle = '#bae6fd';
+      ctx.shadowColor = '#7dd3fc';
+      ctx.shadowBlur = sprung ? 0 : 8;
+      ctx.beginPath();
+      ctx.arc(cx, cy, size * 0.3, 0, Math.PI * 2);
+      ctx.moveTo(cx, cy - size * 0.18);
+      ctx.lineTo(cx, cy + size * 0.18);
+      for (let i = 0; i < 4; i++) {
+        const angle = (i / 4) * Math.PI * 2;
+        ctx.moveTo(cx + Math.cos(angle) * size * 0.3, cy + Math.sin(angle) * size * 0.3);
+        ctx.lineTo(cx + Math.cos(angle) * size * 0.4, cy + Math.sin(angle) * size * 0.4);
+      }
+      ctx.stroke();
+    } else if (kind === 'pit') {
+      const hole = ctx.createRadialGradient(cx, cy, size * 0.05, cx, cy, size * 0.34);
+      hole.addColorStop(0, '#000000');
+      hole.addColorStop(1, '#1c1917');
+      ctx.fillStyle = hole;
+      ctx.strokeStyle = '#78716c';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.ellipse(cx, cy, size * 0.34, size * 0.26, 0, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    } else if (kind === 'alarm') {
+      // A bell: dome, lip and clapper.
+      ctx.strokeStyle = '#fde047';
+      ctx.fillStyle = 'rgba(253,224,71,0.25)';
+      ctx.beginPath();
+      ctx.moveTo(px + size * 0.3, py + size * 0.66);
+      ctx.quadraticCurveTo(px + size * 0.3, py + size * 0.22, cx, py + size * 0.22);
+      ctx.quadraticCurveTo(px + size * 0.7, py + size * 0.22, px + size * 0.7, py + size * 0.66);
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = '#fde047';
+      ctx.beginPath();
+      ctx.arc(cx, py + size * 0.74, size * 0.06, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      // Dart holes in a row plus one dart in flight.
+      ctx.fillStyle = '#1a2e05';
+      [0.3, 0.5, 0.7].forEach((fx) => {
+        ctx.beginPath();
+        ctx.arc(px + size * fx, py + size * 0.3, size * 0.05, 0, Math.PI * 2);
+        ctx.fill();
+      });
+      ctx.strokeStyle = '#a3e635';
+      ctx.lineWidth = 2.2;
+      ctx.beginPath();
+      ctx.moveTo(px + size * 0.28, py + size * 0.72);
+      ctx.lineTo(px + size * 0.68, py + size * 0.5);
+      ctx.moveTo(px + size * 0.68, py + size * 0.5);
+      ctx.lineTo(px + size * 0.58, py + size * 0.5);
+      ctx.moveTo(px + size * 0.68, py + size * 0.5);
+      ctx.lineTo(px + size * 0.63, py + size * 0.59);
+      ctx.stroke();
+    }
+    ctx.restore();
+  };
+
+  /** Speckles on room floors in the current biome's style. */
+  const drawRoomDecoration = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, lighting: number) => {
+    const px = x * size;
+    const py = y * size;
+    const decoration = biomeRef.current.decoration;
+    const spot = (i: number) => ({
+      cx: px + size * (0.15 + pseudoRandom(x + i * 3, y + i * 7, 2) * 0.7),
+      cy: py + size * (0.2 + pseudoRandom(x + i * 5, y + i * 11, 3) * 0.6)
+    });
+
+    if (decoration === 'frost') {
+      ctx.fillStyle = `rgba(255,255,255,${0.12 * lighting})`;
+      for (let i = 0; i < 6; i++) {
+        const { cx, cy } = spot(i);
+        ctx.beginPath();
+        ctx.arc(cx, cy, size * (0.01 + pseudoRandom(x + i * 3, y + i * 7, 2) * 0.015), 0, Math.PI * 2);
+        ctx.fill();
+      }
+    } else if (decoration === 'embers') {
+      for (let i = 0; i < 3; i++) {
+        const { cx, cy } = spot(i);
+        const glow = ctx.createRadialGradient(cx, cy, 0, cx, cy, size * 0.08);
+        glow.addColorStop(0, `rgba(253,186,116,${0.55 * lighting})`);
+        glow.addColorStop(1, 'rgba(234,88,12,0)');
+        ctx.fillStyle = glow;
+        ctx.fillRect(cx - size * 0.08, cy - size * 0.08, size * 0.16, size * 0.16);
+      }
+    } else if (decoration === 'bones') {
+      // A stray bone on roughly one tile in three.
+      if (pseudoRandom(x, y, 4) < 0.35) {
+        const { cx, cy } = spot(0);
+        const angle = pseudoRandom(x, y, 8) * Math.PI;
+        const dx = Math.cos(angle) * size * 0.12;
+        const dy = Math.sin(angle) * size * 0.12;
+        ctx.strokeStyle = `rgba(231,229,228,${0.4 * lighting})`;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(cx - dx, cy - dy);
+        ctx.lineTo(cx + dx, cy + dy);
+        ctx.stroke();
+        ctx.fillStyle = ctx.strokeStyle;
+        [-1, 1].forEach((end) => {
+          ctx.beginPath();
+          ctx.arc(cx + dx * end, cy + dy * end, size * 0.03, 0, Math.PI * 2);
+          ctx.fill();
+        });
+      }
+    } else {
+      // Ore veins: short glinting streaks.
+      ctx.strokeStyle = `rgba(250,204,21,${0.3 * lighting})`;
+      ctx.lineWidth = 1.2;
+      for (let i = 0; i < 2; i++) {
+        const { cx, cy } = spot(i);
+        ctx.beginPath();
+        ctx.moveTo(cx, cy);
+        ctx.lineTo(cx + size * 0.1, cy + size * (pseudoRandom(x, y, 9 + i) * 0.1 - 0.05));
+        ctx.lineTo(cx + size * 0.16, cy + size * 0.04);
+        ctx.stroke();
+      }
+    }
+  };
+
+  /** The biome hazard's art: cracked ice, a lava vent, miasma or rubble. */
+  const drawHazard = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, lighting: number) => {
+    const px = x * size;
+    const py = y * size;
+    const cx = px + size / 2;
+    const cy = py + size / 2;
+    const decoration = biomeRef.current.decoration;
+
+    if (decoration === 'frost') {
+      ctx.strokeStyle = `rgba(240,249,255,${0.75 * lighting})`;
+      ctx.lineWidth = 1.3;
+      ctx.beginPath();
+      for (let i = 0; i < 4; i++) {
+        const angle = (i / 4) * Math.PI * 2 + pseudoRandom(x, y, 10 + i);
+        ctx.moveTo(cx, cy);
+        ctx.lineTo(cx + Math.cos(angle) * size * 0.36, cy + Math.sin(angle) * size * 0.36);
+      }
+      ctx.stroke();
+    } else if (decoration === 'embers') {
+      const glow = ctx.createRadialGradient(cx, cy, 0, cx, cy, size * 0.4);
+      glow.addColorStop(0, `rgba(254,240,138,${0.9 * lighting})`);
+      glow.addColorStop(0.45, `rgba(249,115,22,${0.7 * lighting})`);
+      glow.addColorStop(1, 'rgba(127,29,29,0)');
+      ctx.fillStyle = glow;
+      ctx.beginPath();
+      ctx.arc(cx, cy, size * 0.4, 0, Math.PI * 2);
+      ctx.fill();
+    } else if (decoration === 'bones') {
+      for (let i = 0; i < 3; i++) {
+        const ox = (pseudoRandom(x, y, 12 + i) - 0.5) * size * 0.4;
+        const oy = (pseudoRandom(x, y, 15 + i) - 0.5) * size * 0.4;
+        const cloud = ctx.createRadialGradient(cx + ox, cy + oy, 0, cx + ox, cy + oy, size * 0.26);
+        cloud.addColorStop(0, `rgba(190,242,100,${0.35 * lighting})`);
+        cloud.addColorStop(1, 'rgba(54,83,20,0)');
+        ctx.fillStyle = cloud;
+        ctx.fillRect(px, py, size, size);
+      }
+    } else {
+      ctx.fillStyle = `rgba(168,162,158,${0.85 * lighting + 0.1})`;
+      ctx.strokeStyle = 'rgba(28,25,23,0.8)';
+      ctx.lineWidth = 1;
+      for (let i = 0; i < 5; i++) {
+        const sx = px + size * (0.2 + pseudoRandom(x + i, y, 18) * 0.6);
+        const sy = py + size * (0.2 + pseudoRandom(x, y + i, 19) * 0.6);
+        const r = size * (0.05 + pseudoRandom(x + i, y + i, 20) * 0.05);
+        ctx.beginPath();
+        ctx.moveTo(sx - r, sy);
+        ctx.lineTo(sx - r * 0.3, sy - r);
+        ctx.lineTo(sx + r, sy - r * 0.4);
+        ctx.lineTo(sx + r * 0.6, sy + r * 0.8);
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+      }
+    }
+  };
+
   const roundedRectPath = (
     ctx: CanvasRenderingContext2D,
     x: number,
@@ -307,9 +675,10 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
     const py = y * size;
     const radius = 8;
     const lighting = getLighting(tile);
-    const wallTop = palette.wall;
-    const side = palette.wallSide;
-    const deep = palette.wallDeep;
+    const colors = colorsRef.current;
+    const wallTop = colors.wall;
+    const side = colors.wallSide;
+    const deep = colors.wallDeep;
     const h = RenderSettings.wallHeightPx;
     const faceInset = 3;
 
@@ -401,7 +770,7 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
     const lighting = getLighting(tile);
 
     ctx.save();
-    ctx.fillStyle = palette.door;
+    ctx.fillStyle = colorsRef.current.door;
     ctx.strokeStyle = '#2b1f12';
     ctx.lineWidth = 2.5;
     roundedRectPath(ctx, px + size * 0.19, py + size * 0.2, panelW, panelH, 7);
@@ -433,6 +802,18 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
       ctx.stroke();
     }
 
+    if (tile.lockId) {
+      // Padlock over the panel.
+      ctx.strokeStyle = '#1c1917';
+      ctx.lineWidth = 2.2;
+      ctx.beginPath();
+      ctx.arc(px + size * 0.5, py + size * 0.48, size * 0.08, Math.PI, 0);
+      ctx.stroke();
+      ctx.fillStyle = tile.lockId === BOSS_LOCK ? '#b91c1c' : '#57534e';
+      ctx.fillRect(px + size * 0.38, py + size * 0.48, size * 0.24, size * 0.18);
+      ctx.strokeRect(px + size * 0.38, py + size * 0.48, size * 0.24, size * 0.18);
+    }
+
     ctx.restore();
   };
 
@@ -484,12 +865,9 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
     });
   };
 
-  const applyVisibilityMask = (ctx: CanvasRenderingContext2D, tiles: Tile[][], size: number) => {
-    const height = tiles.length;
-    const width = tiles[0]?.length ?? 0;
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
+  const applyVisibilityMask = (ctx: CanvasRenderingContext2D, tiles: Tile[][], size: number, bounds: TileBounds) => {
+    for (let y = bounds.y0; y < bounds.y1; y++) {
+      for (let x = bounds.x0; x < bounds.x1; x++) {
         const tile = tiles[y][x];
         const px = x * size;
         const py = y * size;
@@ -675,9 +1053,10 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
       const width = currentTiles[0]?.length ?? 0;
       const height = currentTiles.length;
       const size = tileSizeRef.current;
+      const view = viewportSize(currentTiles, viewportRef.current);
 
-      const canvasWidth = width * size;
-      const canvasHeight = height * size;
+      const canvasWidth = view.width * size;
+      const canvasHeight = view.height * size;
 
       if (canvas.style.width !== `${canvasWidth}px` || canvas.style.height !== `${canvasHeight}px`) {
         const dpr = dprRef.current;
@@ -706,32 +1085,52 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
         ctx.translate(offsetX, offsetY);
       }
 
+      const targetPos = { x: playerRef.current.x + 0.5, y: playerRef.current.y + 0.5 };
+      const lerpSpeed = 1 - Math.pow(1 - 0.18, dt / 16.67);
+      renderPlayerRef.current = {
+        x: lerp(renderPlayerRef.current.x, targetPos.x, lerpSpeed),
+        y: lerp(renderPlayerRef.current.y, targetPos.y, lerpSpeed)
+      };
+
+      // Camera: follow the interpolated player and only visit tiles in view (plus a margin for
+      // shadows and wall extrusions that spill over from just outside it).
+      const camera = cameraFor(renderPlayerRef.current, view, currentTiles);
+      cameraRef.current = camera;
+      const bounds: TileBounds = {
+        x0: Math.max(0, Math.floor(camera.x) - RenderSettings.shadowReachTiles),
+        y0: Math.max(0, Math.floor(camera.y) - RenderSettings.shadowReachTiles),
+        x1: Math.min(width, Math.ceil(camera.x + view.width) + 1),
+        y1: Math.min(height, Math.ceil(camera.y + view.height) + 1)
+      };
+      ctx.save();
+      ctx.translate(-camera.x * size, -camera.y * size);
+
       // Floor pass: rooms/corridors/treasure/traps as flat tiles.
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
+      for (let y = bounds.y0; y < bounds.y1; y++) {
+        for (let x = bounds.x0; x < bounds.x1; x++) {
           drawFloorTile(ctx, currentTiles[y][x], x, y, size);
         }
       }
 
       // Wall shadows: cast down-right before we draw walls so fog/light darkens shadows too.
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
+      for (let y = bounds.y0; y < bounds.y1; y++) {
+        for (let x = bounds.x0; x < bounds.x1; x++) {
           const tile = currentTiles[y][x];
           const displayType = getDisplayType(tile);
-          if (displayType === 'wall' || tile.type === 'door' || tile.type === 'secretDoor') {
+          if (displayType === 'wall' || displayType === 'door' || tile.type === 'secretDoor') {
             drawWallShadow(ctx, currentTiles, tile, x, y, size);
           }
         }
       }
 
       // Extruded walls and doors (drawn after shadows for crisp edges).
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
+      for (let y = bounds.y0; y < bounds.y1; y++) {
+        for (let x = bounds.x0; x < bounds.x1; x++) {
           const tile = currentTiles[y][x];
           const displayType = getDisplayType(tile);
-          if (displayType === 'wall' || tile.type === 'door' || tile.type === 'secretDoor') {
+          if (displayType === 'wall' || displayType === 'door' || tile.type === 'secretDoor') {
             drawWallExtrusion(ctx, tile, x, y, size);
-            if (tile.type === 'door' || (tile.type === 'secretDoor' && tile.revealed)) {
+            if (displayType === 'door') {
               drawDoorFace(ctx, tile, x, y, size);
             }
           }
@@ -739,8 +1138,8 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
       }
 
       // Tokens
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
+      for (let y = bounds.y0; y < bounds.y1; y++) {
+        for (let x = bounds.x0; x < bounds.x1; x++) {
           const tile = currentTiles[y][x];
           if (tile.visible && tile.monsterId) {
             drawMonsterToken(ctx, { x: x + 0.5, y: y + 0.5 }, size, tile.type === 'boss');
@@ -748,12 +1147,15 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
         }
       }
 
-      const targetPos = { x: playerRef.current.x + 0.5, y: playerRef.current.y + 0.5 };
-      const lerpSpeed = 1 - Math.pow(1 - 0.18, dt / 16.67);
-      renderPlayerRef.current = {
-        x: lerp(renderPlayerRef.current.x, targetPos.x, lerpSpeed),
-        y: lerp(renderPlayerRef.current.y, targetPos.y, lerpSpeed)
-      };
+      // Travel trail: small markers along the remaining route, the destination slightly larger.
+      travelPathRef.current.forEach((p, i, path) => {
+        const isLast = i === path.length - 1;
+        ctx.fillStyle = isLast ? 'rgba(125,211,252,0.85)' : 'rgba(125,211,252,0.45)';
+        ctx.beginPath();
+        ctx.arc((p.x + 0.5) * size, (p.y + 0.5) * size, size * (isLast ? 0.12 : 0.06), 0, Math.PI * 2);
+        ctx.fill();
+      });
+
       drawPlayerToken(ctx, renderPlayerRef.current, size);
 
       particlesRef.current = particlesRef.current.filter((p) => {
@@ -788,16 +1190,17 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
         if (monsterFlash > 0) flashRef.current.monster = clamp(monsterFlash - dt / 220, 0, 1);
         if (playerFlash > 0) {
           ctx.fillStyle = `rgba(52,211,153,${playerFlash * 0.25})`;
-          ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+          ctx.fillRect(camera.x * size, camera.y * size, canvasWidth, canvasHeight);
         }
         if (monsterFlash > 0) {
           ctx.fillStyle = `rgba(239,68,68,${monsterFlash * 0.25})`;
-          ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+          ctx.fillRect(camera.x * size, camera.y * size, canvasWidth, canvasHeight);
         }
       }
 
       // Fog of war and light mask applied after geometry and effects so shadows inherit darkness.
-      applyVisibilityMask(ctx, currentTiles, size);
+      applyVisibilityMask(ctx, currentTiles, size, bounds);
+      ctx.restore();
 
       const vignette = ctx.createRadialGradient(
         canvasWidth / 2,
@@ -821,7 +1224,13 @@ const DungeonCanvas = forwardRef<DungeonCanvasHandle, DungeonCanvasProps>(({ til
     return () => cancelAnimationFrame(frame);
   }, []);
 
-  return <canvas ref={canvasRef} className="w-full h-auto rounded-lg border-2 border-slate-800 bg-slate-950" />;
+  return (
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      className={`w-full h-auto rounded-lg border-2 border-slate-800 bg-slate-950${onTileClick ? ' cursor-pointer' : ''}`}
+    />
+  );
 });
 
 DungeonCanvas.displayName = 'DungeonCanvas';
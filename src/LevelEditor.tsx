@@ -0,0 +1,214 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Download, Eraser, FilePlus, Link, Map, Play, Upload, Users, X } from 'lucide-react';
+import DungeonCanvas from './DungeonCanvas';
+import { archetypes } from './archetypes';
+import { AsciiMap, downloadAsciiMap, readAsciiMapFile } from './asciiMap';
+import { validateDungeon } from './dungeonGen';
+import { applyTool, blankMap, draftFromMap, editorDisplayTiles, EditorTool } from './editor';
+import { MAP_HEIGHT, MAP_WIDTH } from './engine';
+import { CombatState, PlayerState, TileType } from './types';
+
+const EDITOR_TILE_SIZE = 20;
+const NO_COMBAT: CombatState = { active: false, monsterId: null };
+
+const BRUSHES: { type: TileType; label: string }[] = [
+  { type: 'wall', label: 'Wall' },
+  { type: 'room', label: 'Room' },
+  { type: 'corridor', label: 'Corridor' },
+  { type: 'door', label: 'Door' },
+  { type: 'secretDoor', label: 'Secret door' },
+  { type: 'trap', label: 'Trap' },
+  { type: 'treasure', label: 'Treasure' },
+  { type: 'runeStone', label: 'Rune stone' },
+  { type: 'hazard', label: 'Hazard' },
+  { type: 'stairs', label: 'Stairs' },
+  { type: 'start', label: 'Start' },
+  { type: 'boss', label: 'Boss' }
+];
+
+interface LevelEditorProps {
+  map: AsciiMap;
+  onChange: (map: AsciiMap) => void;
+  /** Start a run on the draft. May throw if the draft can't be played (e.g. no start tile). */
+  onPlayTest: () => void;
+  /** Replace the draft with the floor currently being played. */
+  onLoadCurrentFloor: () => void;
+  onClose: () => void;
+}
+
+const toolButton = (active: boolean) =>
+  `text-xs py-1 px-2 rounded border ${
+    active ? 'bg-blue-600 border-blue-300 text-white' : 'bg-slate-600 border-slate-500 text-blue-100 hover:bg-slate-500'
+  }`;
+
+/** Paint a floor by hand on top of `DungeonCanvas`, then play it or save it as a text map. */
+const LevelEditor: React.FC<LevelEditorProps> = ({ map, onChange, onPlayTest, onLoadCurrentFloor, onClose }) => {
+  const [tool, setTool] = useState<EditorTool>({ kind: 'tile', tileType: 'room' });
+  const [monsterId, setMonsterId] = useState(archetypes[0].id);
+  const [status, setStatus] = useState('Click the map to paint.');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const displayTiles = useMemo(() => editorDisplayTiles(map), [map]);
+  const problems = validateDungeon(map.tiles, { minRooms: 0 }).problems;
+  const startRow = map.tiles.findIndex((row) => row.some((tile) => tile.type === 'start'));
+  // The hero token marks the start tile; with none painted yet it is parked off the map.
+  const marker: PlayerState = {
+    x: startRow < 0 ? -1 : map.tiles[startRow].findIndex((tile) => tile.type === 'start'),
+    y: startRow,
+    hp: 1,
+    maxHP: 1,
+    focus: 0,
+    maxFocus: 0,
+    atk: 0,
+    def: 0,
+    gold: 0,
+    level: 1,
+    xp: 0
+  };
+
+  const attempt = (action: () => void, success?: string) => {
+    try {
+      action();
+      if (success) setStatus(success);
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const handleTileClick = (x: number, y: number) =>
+    attempt(() => {
+      const next = applyTool(map, tool, x, y);
+      onChange(next);
+      const links = next.tiles[y][x].secretDoorLinks;
+      setStatus(tool.kind === 'link' && links ? `Secret door at ${x},${y} joins regions ${links[0]} and ${links[1]}.` : `Edited ${x},${y}.`);
+    });
+
+  const loadFile = async (file: File) => {
+    try {
+      onChange(draftFromMap(await readAsciiMapFile(file)));
+      setStatus(`Opened ${file.name}.`);
+    } catch (error) {
+      setStatus(`Could not open map: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {BRUSHES.map((brush) => (
+          <button
+            key={brush.type}
+            onClick={() => setTool({ kind: 'tile', tileType: brush.type })}
+            className={toolButton(tool.kind === 'tile' && tool.tileType === brush.type)}
+          >
+            {brush.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <select
+          value={monsterId}
+          onChange={(e) => {
+            setMonsterId(e.target.value);
+            setTool({ kind: 'monster', archetypeId: e.target.value });
+          }}
+          className="bg-slate-900 text-blue-100 text-xs rounded px-2 py-1 border border-slate-600"
+        >
+          {archetypes.map((archetype) => (
+            <option key={archetype.id} value={archetype.id}>
+              {archetype.name} ({archetype.tier ?? 'minion'})
+            </option>
+          ))}
+        </select>
+        <button onClick={() => setTool({ kind: 'monster', archetypeId: monsterId })} className={toolButton(tool.kind === 'monster')}>
+          <Users className="w-3 h-3 inline" /> Place monster
+        </button>
+        <button onClick={() => setTool({ kind: 'eraseMonster' })} className={toolButton(tool.kind === 'eraseMonster')}>
+          <Eraser className="w-3 h-3 inline" /> Remove monster
+        </button>
+        <button
+          onClick={() => setTool({ kind: 'link' })}
+          title="Click a secret door to link it to the regions on either side"
+          className={toolButton(tool.kind === 'link')}
+        >
+          <Link className="w-3 h-3 inline" /> Link secret door
+        </button>
+      </div>
+
+      <div className="overflow-auto">
+        <DungeonCanvas
+          tiles={displayTiles}
+          player={marker}
+          combat={NO_COMBAT}
+          tileSize={EDITOR_TILE_SIZE}
+          onTileClick={handleTileClick}
+        />
+      </div>
+
+      <div className="text-sm text-blue-100">{status}</div>
+      {problems.length > 0 && (
+        <ul className="text-xs text-amber-300 list-disc list-inside">
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+      <div className="text-xs text-blue-300">
+        {map.tiles[0]?.length ?? 0}x{map.tiles.length} tiles, {map.monsters.length} monster{map.monsters.length === 1 ? '' : 's'}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        <button
+          onClick={() => attempt(onPlayTest)}
+          className="bg-green-700 hover:bg-green-600 text-white font-bold text-sm py-2 rounded flex items-center justify-center gap-1"
+        >
+          <Play className="w-4 h-4" /> Play-test
+        </button>
+        <button
+          onClick={() => downloadAsciiMap(map, 'norse-crawler-custom.txt')}
+          className="bg-slate-600 hover:bg-slate-500 text-blue-100 text-sm py-2 rounded flex items-center justify-center gap-1"
+        >
+          <Download className="w-4 h-4" /> Export map
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="bg-slate-600 hover:bg-slate-500 text-blue-100 text-sm py-2 rounded flex items-center justify-center gap-1"
+        >
+          <Upload className="w-4 h-4" /> Open map
+        </button>
+        <button
+          onClick={() => attempt(() => onChange(blankMap(MAP_WIDTH, MAP_HEIGHT)), 'Started a blank map.')}
+          className="bg-slate-600 hover:bg-slate-500 text-blue-100 text-sm py-2 rounded flex items-center justify-center gap-1"
+        >
+          <FilePlus className="w-4 h-4" /> Blank map
+        </button>
+        <button
+          onClick={() => attempt(onLoadCurrentFloor, 'Copied the current floor.')}
+          className="bg-slate-600 hover:bg-slate-500 text-blue-100 text-sm py-2 rounded flex items-center justify-center gap-1"
+        >
+          <Map className="w-4 h-4" /> Current floor
+        </button>
+        <button
+          onClick={onClose}
+          className="bg-slate-600 hover:bg-slate-500 text-blue-100 text-sm py-2 rounded flex items-center justify-center gap-1"
+        >
+          <X className="w-4 h-4" /> Back to game
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".txt,text/plain"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) loadFile(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default LevelEditor;
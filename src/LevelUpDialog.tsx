@@ -0,0 +1,47 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { levelUpChoices } from './progression';
+import { PlayerState } from './types';
+
+interface LevelUpDialogProps {
+  player: PlayerState;
+  onChoose: (choiceId: string) => void;
+}
+
+/** Modal shown while the hero has level-ups to spend: pick a stat boost or a perk for each one. */
+const LevelUpDialog: React.FC<LevelUpDialogProps> = ({ player, onChoose }) => {
+  const choices = levelUpChoices(player);
+  const pending = player.pendingLevelUps ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+      <div className="w-full max-w-md rounded-lg border-2 border-amber-400 bg-slate-800 p-5 shadow-[0_0_24px_rgba(251,191,36,0.35)]">
+        <h3 className="mb-1 flex items-center gap-2 text-xl font-bold text-amber-200">
+          <Star className="h-5 w-5" /> Level {player.level - pending + 1}
+        </h3>
+        <p className="mb-4 text-sm text-blue-200">
+          The skalds will sing of this. Choose how you grow stronger{pending > 1 ? ` (${pending} choices waiting)` : ''}.
+        </p>
+        <div className="space-y-2">
+          {choices.map((choice) => (
+            <button
+              key={choice.id}
+              onClick={() => onChoose(choice.id)}
+              className={`w-full rounded border px-3 py-2 text-left ${
+                choice.perk ? 'border-violet-500 bg-violet-950 hover:bg-violet-900' : 'border-blue-500 bg-slate-700 hover:bg-slate-600'
+              }`}
+            >
+              <div className="font-bold text-blue-100">
+                {choice.name}
+                {choice.perk && <span className="ml-2 text-xs uppercase tracking-wide text-violet-300">Perk</span>}
+              </div>
+              <div className="text-sm text-blue-200">{choice.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelUpDialog;
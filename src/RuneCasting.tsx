@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import { knowsRune, runes, runesById, spellFor, spells } from './runes';
+import { PlayerState, RuneId } from './types';
+
+interface RuneCastingProps {
+  player: PlayerState;
+  onCast: (picked: RuneId[]) => void;
+}
+
+/** Pick two known runes to see the spell they form, then cast it. Known pairings are listed below as a reminder. */
+const RuneCasting: React.FC<RuneCastingProps> = ({ player, onCast }) => {
+  const [picked, setPicked] = useState<RuneId[]>([]);
+  const known = runes.filter((rune) => knowsRune(player, rune.id));
+  const spell = spellFor(picked);
+  const castable = spells.filter((s) => s.runes.every((rune) => knowsRune(player, rune)));
+
+  const toggle = (rune: RuneId) =>
+    setPicked((current) => (current.includes(rune) ? current.filter((r) => r !== rune) : [...current, rune].slice(-2)));
+
+  const cast = () => {
+    onCast(picked);
+    setPicked([]);
+  };
+
+  return (
+    <div className="bg-slate-700 rounded-lg p-4 border-2 border-blue-600">
+      <h3 className="text-lg font-bold text-blue-300 mb-2 flex items-center gap-2">
+        <Sparkles className="w-5 h-5" /> Runes
+      </h3>
+      <div className="flex items-center justify-between text-sm text-blue-100">
+        <span>Focus</span>
+        <span className="text-xs text-blue-300">
+          {player.focus}/{player.maxFocus}
+        </span>
+      </div>
+      <div className="mt-1 mb-3 h-2 rounded bg-slate-900 overflow-hidden">
+        <div className="h-full bg-violet-400" style={{ width: `${player.maxFocus ? (player.focus / player.maxFocus) * 100 : 0}%` }} />
+      </div>
+      {known.length === 0 ? (
+        <p className="text-blue-200 text-sm italic">You know no runes yet. Look for rune stones among the loot.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-1">
+            {known.map((rune) => (
+              <button
+                key={rune.id}
+                onClick={() => toggle(rune.id)}
+                title={`${rune.name}: ${rune.meaning}`}
+                className={`w-10 h-10 rounded text-xl font-bold border-2 ${
+                  picked.includes(rune.id) ? 'bg-violet-700 border-violet-300 text-white' : 'bg-slate-800 border-slate-600 text-violet-200 hover:bg-slate-600'
+                }`}
+              >
+                {rune.glyph}
+              </button>
+            ))}
+          </div>
+          <div className="mt-2 min-h-[2.5rem] text-sm">
+            {spell ? (
+              <>
+                <div className="font-bold text-violet-200">
+                  {spell.name} <span className="text-xs text-blue-300">({spell.cost} focus)</span>
+                </div>
+                <div className="text-xs text-blue-200">{spell.description}</div>
+              </>
+            ) : (
+              <div className="text-xs text-blue-300">
+                {picked.length < 2 ? 'Choose two runes to bind together.' : 'These runes form no spell.'}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={cast}
+            disabled={!spell || player.focus < spell.cost || player.hp <= 0}
+            className="mt-2 w-full bg-violet-700 hover:bg-violet-600 disabled:bg-slate-600 disabled:text-slate-400 text-white font-bold py-2 rounded"
+          >
+            {spell ? `Cast ${spell.name}` : 'Cast'}
+          </button>
+          {castable.length > 0 && (
+            <div className="mt-2 space-y-0.5 text-xs text-blue-300">
+              {castable.map((s) => (
+                <div key={s.id}>
+                  <span className="text-violet-200">{s.runes.map((rune) => runesById[rune].glyph).join('')}</span> {s.name}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RuneCasting;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Droplet, Flame, FlaskConical, LucideIcon, Snowflake, Sun } from 'lucide-react';
+import { statusesByKind } from './statuses';
+import { StatusEffect, StatusKind } from './types';
+
+const icons: Record<StatusKind, { icon: LucideIcon; className: string }> = {
+  frozen: { icon: Snowflake, className: 'text-sky-300 border-sky-500' },
+  bleeding: { icon: Droplet, className: 'text-red-400 border-red-600' },
+  poisoned: { icon: FlaskConical, className: 'text-lime-300 border-lime-600' },
+  berserk: { icon: Flame, className: 'text-orange-300 border-orange-500' },
+  blessed: { icon: Sun, className: 'text-amber-200 border-amber-400' }
+};
+
+interface StatusBadgesProps {
+  effects?: StatusEffect[];
+}
+
+/** One icon per running status with its turns left (and stacks, for bleeding); hover for the details. */
+const StatusBadges: React.FC<StatusBadgesProps> = ({ effects = [] }) => {
+  if (!effects.length) return null;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {effects.map((effect) => {
+        const { icon: Icon, className } = icons[effect.kind];
+        const definition = statusesByKind[effect.kind];
+        const stacks = (effect.potency ?? 1) > 1 ? ` x${effect.potency}` : '';
+        return (
+          <span
+            key={effect.kind}
+            title={`${definition.name}${stacks}: ${definition.description} (${effect.turns} turn${effect.turns === 1 ? '' : 's'} left)`}
+            className={`inline-flex items-center gap-1 rounded border bg-slate-900/70 px-1.5 py-0.5 text-xs ${className}`}
+          >
+            <Icon className="w-3 h-3" />
+            {effect.turns}
+            {stacks}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StatusBadges;
@@ -0,0 +1,91 @@
+import { MonsterArchetype } from './types';
+
+export const archetypes: MonsterArchetype[] = [
+  { id: 'goblin', name: 'Goblin', glyph: 'g', maxHP: 10, atk: 3, def: 1, gold: 5, xp: 4, tier: 'minion', behavior: 'coward' },
+  { id: 'orc', name: 'Orc', glyph: 'o', maxHP: 16, atk: 5, def: 2, gold: 12, xp: 6, tier: 'minion' },
+  {
+    id: 'skeleton',
+    name: 'Skeleton',
+    glyph: 's',
+    maxHP: 12,
+    atk: 4,
+    def: 1,
+    gold: 8,
+    xp: 5,
+    tier: 'minion',
+    behavior: 'patrol',
+    onHit: { kind: 'bleeding', turns: 3, chance: 0.25 }
+  },
+  {
+    id: 'zombie',
+    name: 'Zombie',
+    glyph: 'z',
+    maxHP: 14,
+    atk: 4,
+    def: 2,
+    gold: 10,
+    xp: 5,
+    tier: 'minion',
+    onHit: { kind: 'poisoned', turns: 3, chance: 0.3 }
+  },
+  {
+    id: 'chaosWarrior',
+    name: 'Chaos Warrior',
+    glyph: 'c',
+    maxHP: 22,
+    atk: 6,
+    def: 3,
+    gold: 18,
+    xp: 8,
+    tier: 'elite',
+    onHit: { kind: 'bleeding', turns: 4, chance: 0.3 }
+  },
+  {
+    id: 'abomination',
+    name: 'Abomination',
+    glyph: 'a',
+    maxHP: 24,
+    atk: 6,
+    def: 3,
+    gold: 20,
+    xp: 8,
+    tier: 'elite',
+    onHit: { kind: 'poisoned', turns: 4, chance: 0.35 }
+  },
+  { id: 'gargoyle', name: 'Gargoyle', glyph: 'G', maxHP: 28, atk: 7, def: 4, gold: 30, xp: 10, tier: 'elite' },
+  { id: 'frostGiant', name: 'Frost Giant', glyph: 'F', maxHP: 40, atk: 7, def: 3, gold: 60, xp: 12, tier: 'boss', behavior: 'guard' }
+];
+
+/**
+ * Monsters that turn up together. `spawnMonsters` gives each room one theme and fills it from the
+ * theme's archetypes that the floor's biome allows.
+ */
+export const encounterThemes: { name: string; archetypeIds: string[] }[] = [
+  { name: 'Raiding party', archetypeIds: ['goblin', 'orc', 'chaosWarrior'] },
+  { name: 'Restless dead', archetypeIds: ['skeleton', 'zombie', 'abomination'] },
+  { name: 'Haunted ruin', archetypeIds: ['skeleton', 'goblin', 'gargoyle'] },
+  { name: 'Chaos cult', archetypeIds: ['orc', 'zombie', 'chaosWarrior', 'abomination'] },
+  { name: 'Stone watch', archetypeIds: ['orc', 'skeleton', 'gargoyle'] }
+];
+
+export const toRecord = <T extends { id: string }>(list: T[]) =>
+  list.reduce<Record<string, T>>((acc, item) => {
+    acc[item.id] = item;
+    return acc;
+  }, {});
+
+/**
+ * Monster stats grow with depth: HP, gold and XP by a quarter of the base per floor, attack and
+ * defence by one point every other floor. Depth 1 returns the archetype unchanged.
+ */
+export const scaleArchetype = (archetype: MonsterArchetype, depth: number): MonsterArchetype => {
+  const floors = depth - 1;
+  return {
+    ...archetype,
+    maxHP: Math.round(archetype.maxHP * (1 + 0.25 * floors)),
+    atk: archetype.atk + Math.floor(floors / 2),
+    def: archetype.def + Math.floor(floors / 2),
+    gold: Math.round(archetype.gold * (1 + 0.25 * floors)),
+    xp: Math.round(archetype.xp * (1 + 0.25 * floors))
+  };
+};
@@ -0,0 +1,223 @@
+import { trapsByKind } from './traps';
+import { GameState, Tile, TileType, TrapKind } from './types';
+
+/**
+ * Plain-text maps for fixed test dungeons and bug reports.
+ *
+ * The first block is the grid, one glyph per tile (see `TILE_GLYPHS`). After a blank line come
+ * overlay lines for everything a glyph can't show, each `<kind> <args...>` with points as `x,y`:
+ *
+ *   monster goblin 4,2 12     archetype, position, optional HP
+ *   revealed 3,1 7,9          trap / secret door found
+ *   triggered 5,5             trap sprung or rune stone answered
+ *   open 6,2                  door standing open
+ *   vault 8,8 9,8             part of a secret vault
+ *   lock iron 6,2             door locked for a key
+ *   key iron 2,8              key lying on a tile
+ *   loot seax 5,1             item in a treasure chest
+ *   trap pit 5,5              what a trap does (traps without one are spikes)
+ *   link 9,4 1 2              secret door joining regions 1 and 2
+ *
+ * Lines starting with `;` are comments.
+ */
+export const TILE_GLYPHS: Record<TileType, string> = {
+  wall: '#',
+  room: '.',
+  corridor: ',',
+  door: '+',
+  secretDoor: '=',
+  trap: '^',
+  treasure: '$',
+  start: 'S',
+  boss: 'B',
+  stairs: '>',
+  runeStone: 'R',
+  hazard: '~'
+};
+
+const GLYPH_TILES: Record<string, TileType> = Object.fromEntries(
+  Object.entries(TILE_GLYPHS).map(([type, glyph]) => [glyph, type as TileType])
+);
+
+export interface AsciiMapMonster {
+  archetypeId: string;
+  x: number;
+  y: number;
+  hp?: number;
+}
+
+export interface AsciiMap {
+  tiles: Tile[][];
+  monsters: AsciiMapMonster[];
+}
+
+const point = (x: number, y: number) => `${x},${y}`;
+
+/** A fresh, unexplored tile of `type` with the flags that type starts with (closed, hidden, unsprung). */
+export const blankTile = (type: TileType): Tile => {
+  const tile: Tile = { type, explored: false, visible: false };
+  if (type === 'corridor' || type === 'door') tile.regionType = 'corridor';
+  if (type === 'door') tile.open = false;
+  if (type === 'trap' || type === 'secretDoor') tile.revealed = false;
+  if (type === 'trap' || type === 'runeStone') tile.triggered = false;
+  return tile;
+};
+
+/**
+ * Print a map in the format described above. `parseAsciiMap` reads back the tile types and every
+ * overlay: monsters (position and HP), revealed, triggered and open flags, vaults, locks, keys, loot,
+ * trap kinds and secret door links. The rest is dropped: exploration and visibility, region ids,
+ * frozen ground, a rune stone's riddle and any other monster state. A trap's room or corridor
+ * `regionType` is guessed again on parsing.
+ */
+export const printAsciiMap = ({ tiles, monsters }: AsciiMap): string => {
+  const grid = tiles.map((row) => row.map((tile) => TILE_GLYPHS[tile.type] ?? '#').join(''));
+  const flagged = (kind: string, test: (tile: Tile) => boolean) => {
+    const points: string[] = [];
+    tiles.forEach((row, y) =>
+      row.forEach((tile, x) => {
+        if (test(tile)) points.push(point(x, y));
+      })
+    );
+    return points.length ? [`${kind} ${points.join(' ')}`] : [];
+  };
+  const grouped = (kind: string, value: (tile: Tile) => string | null | undefined) => {
+    const groups: Record<string, string[]> = {};
+    tiles.forEach((row, y) =>
+      row.forEach((tile, x) => {
+        const v = value(tile);
+        if (v) groups[v] = [...(groups[v] ?? []), point(x, y)];
+      })
+    );
+    return Object.entries(groups).map(([v, points]) => `${kind} ${v} ${points.join(' ')}`);
+  };
+  const links: string[] = [];
+  tiles.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile.secretDoorLinks) links.push(`link ${point(x, y)} ${tile.secretDoorLinks[0]} ${tile.secretDoorLinks[1]}`);
+    })
+  );
+
+  const overlays = [
+    ...monsters.map((m) => `monster ${m.archetypeId} ${point(m.x, m.y)}${m.hp === undefined ? '' : ` ${m.hp}`}`),
+    ...flagged('revealed', (tile) => !!tile.revealed),
+    ...flagged('triggered', (tile) => !!tile.triggered),
+    ...flagged('open', (tile) => !!tile.open),
+    ...flagged('vault', (tile) => !!tile.vault),
+    ...grouped('lock', (tile) => tile.lockId),
+    ...grouped('key', (tile) => tile.keyFor),
+    ...grouped('loot', (tile) => tile.lootId),
+    ...grouped('trap', (tile) => tile.trapKind),
+    ...links
+  ];
+  return [...grid, ...(overlays.length ? ['', ...overlays] : [])].join('\n') + '\n';
+};
+
+/** Parse the text format. Throws with the offending line number when the input can't be read. */
+export const parseAsciiMap = (text: string): AsciiMap => {
+  const lines = text.replace(/\r/g, '').split('\n');
+  const fail = (index: number, message: string): never => {
+    throw new Error(`Map line ${index + 1}: ${message}`);
+  };
+
+  let i = 0;
+  while (i < lines.length && (!lines[i].trim() || lines[i].startsWith(';'))) i++;
+  const rows: string[] = [];
+  for (; i < lines.length && lines[i].trim(); i++) {
+    if (lines[i].startsWith(';')) continue;
+    const row = lines[i].trimEnd();
+    [...row].forEach((glyph, x) => {
+      if (!GLYPH_TILES[glyph]) fail(i, `unknown tile glyph "${glyph}" at column ${x + 1}.`);
+    });
+    rows.push(row);
+  }
+  if (!rows.length) throw new Error('Map has no grid.');
+
+  // Short rows are padded with wall rather than rejected, so hand-typed maps needn't be ragged-free.
+  const width = Math.max(...rows.map((row) => row.length));
+  const tiles: Tile[][] = rows.map((row) =>
+    Array.from({ length: width }, (_, x) => blankTile(GLYPH_TILES[row[x] ?? '#']))
+  );
+  const height = tiles.length;
+  // The '^' glyph doesn't say whether a trap sits in a room or a corridor, so guess from its neighbours.
+  tiles.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile.type !== 'trap') return;
+      const neighbours = [tiles[y - 1]?.[x], tiles[y + 1]?.[x], row[x - 1], row[x + 1]];
+      const inRoom = neighbours.some((n) => n && n.type !== 'wall' && n.type !== 'trap' && n.regionType !== 'corridor');
+      row[x] = { ...tile, regionType: inRoom ? 'room' : 'corridor' };
+    })
+  );
+
+  const monsters: AsciiMapMonster[] = [];
+  for (; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith(';')) continue;
+    const [kind, ...args] = line.split(/\s+/);
+    const parsePoint = (arg: string | undefined) => {
+      const match = arg?.match(/^(\d+),(\d+)$/);
+      if (!match) return fail(i, `expected a point like 3,4 but found "${arg ?? ''}".`);
+      const p = { x: Number(match[1]), y: Number(match[2]) };
+      if (p.x >= width || p.y >= height) fail(i, `point ${arg} is outside the ${width}x${height} grid.`);
+      return p;
+    };
+    const setAll = (points: string[], update: (tile: Tile) => Tile) => {
+      if (!points.length) fail(i, `"${kind}" needs at least one point.`);
+      points.map(parsePoint).forEach(({ x, y }) => {
+        tiles[y][x] = update(tiles[y][x]);
+      });
+    };
+
+    if (kind === 'monster') {
+      const p = parsePoint(args[1]);
+      if (!args[0]) fail(i, 'monster needs an archetype id.');
+      const hp = args[2] === undefined ? undefined : Number(args[2]);
+      if (hp !== undefined && !(hp > 0)) fail(i, `monster HP must be a positive number, not "${args[2]}".`);
+      monsters.push({ archetypeId: args[0], ...p, hp });
+    } else if (kind === 'revealed') {
+      setAll(args, (tile) => ({ ...tile, revealed: true }));
+    } else if (kind === 'triggered') {
+      setAll(args, (tile) => ({ ...tile, triggered: true }));
+    } else if (kind === 'open') {
+      setAll(args, (tile) => ({ ...tile, open: true }));
+    } else if (kind === 'vault') {
+      setAll(args, (tile) => ({ ...tile, vault: true }));
+    } else if (kind === 'lock' || kind === 'key' || kind === 'loot') {
+      const [value, ...points] = args;
+      if (!value) fail(i, `${kind} needs an id before its points.`);
+      const field = kind === 'lock' ? 'lockId' : kind === 'key' ? 'keyFor' : 'lootId';
+      setAll(points, (tile) => ({ ...tile, [field]: value }));
+    } else if (kind === 'trap') {
+      const [value, ...points] = args;
+      if (!trapsByKind[value as TrapKind]) fail(i, `unknown trap kind "${value ?? ''}".`);
+      setAll(points, (tile) => ({ ...tile, trapKind: value as TrapKind }));
+    } else if (kind === 'link') {
+      const { x, y } = parsePoint(args[0]);
+      const [a, b] = [Number(args[1]), Number(args[2])];
+      if (!Number.isInteger(a) || !Number.isInteger(b)) fail(i, 'link needs a point and two region ids.');
+      tiles[y][x] = { ...tiles[y][x], secretDoorLinks: [a, b] };
+    } else {
+      fail(i, `unknown overlay "${kind}".`);
+    }
+  }
+
+  return { tiles, monsters };
+};
+
+/** The current floor of a run as an `AsciiMap` (monsters at their current HP). */
+export const mapFromGame = (state: GameState): AsciiMap => ({
+  tiles: state.tiles,
+  monsters: Object.values(state.monstersById).map((m) => ({ archetypeId: m.archetypeId, x: m.pos.x, y: m.pos.y, hp: m.hp }))
+});
+
+export const downloadAsciiMap = (map: AsciiMap, filename: string) => {
+  const blob = new Blob([printAsciiMap(map)], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const readAsciiMapFile = async (file: File): Promise<AsciiMap> => parseAsciiMap(await file.text());
@@ -0,0 +1,126 @@
+import { Rng } from './rng';
+
+/** How room floors are speckled in `DungeonCanvas`. */
+export type FloorDecoration = 'frost' | 'embers' | 'bones' | 'ore';
+
+/** Colours a biome overrides in the canvas palette; anything left out keeps the default. */
+export interface BiomePalette {
+  wall?: string;
+  wallSide?: string;
+  wallDeep?: string;
+  room?: string;
+  corridor?: string;
+  /** Hatching on corridor floors. */
+  accent?: string;
+  hazard?: string;
+}
+
+/** Ground that hurts every time the hero steps onto it. Always visible, unlike traps. */
+export interface BiomeHazard {
+  name: string;
+  damage: [number, number];
+  /** Logged on entry, before the damage. */
+  message: string;
+}
+
+export interface Biome {
+  id: string;
+  name: string;
+  palette: BiomePalette;
+  decoration: FloorDecoration;
+  /** Archetype ids of the rank-and-file monsters; the boss is chosen separately. */
+  monsterPool: string[];
+  hazard: BiomeHazard;
+  /** Logged when the hero arrives on a floor of this biome. */
+  arrival: string;
+}
+
+export const biomes: Biome[] = [
+  {
+    id: 'niflheim',
+    name: 'Niflheim ice',
+    palette: {
+      wall: '#070910',
+      wallSide: '#03040a',
+      wallDeep: '#010309',
+      room: '#2f3f5b',
+      corridor: '#1b2434',
+      accent: '#7c3aed',
+      hazard: '#7dd3fc'
+    },
+    decoration: 'frost',
+    monsterPool: ['goblin', 'skeleton', 'zombie', 'gargoyle'],
+    hazard: { name: 'Thin ice', damage: [3, 6], message: 'The thin ice cracks and freezing water bites at your legs!' },
+    arrival: 'Frost rimes the walls and your breath hangs in the air.'
+  },
+  {
+    id: 'muspelheim',
+    name: 'Muspelheim fire',
+    palette: {
+      wall: '#140807',
+      wallSide: '#0a0403',
+      wallDeep: '#070201',
+      room: '#5b2f26',
+      corridor: '#34201b',
+      accent: '#f97316',
+      hazard: '#dc2626'
+    },
+    decoration: 'embers',
+    monsterPool: ['goblin', 'orc', 'chaosWarrior', 'gargoyle'],
+    hazard: { name: 'Lava vent', damage: [6, 12], message: 'A lava vent spits fire at your feet!' },
+    arrival: 'Heat rolls from cracks in the floor, glowing with the fires of Surtr.'
+  },
+  {
+    id: 'helheim',
+    name: 'Helheim',
+    palette: {
+      wall: '#0a0d0b',
+      wallSide: '#050706',
+      wallDeep: '#020302',
+      room: '#3a4a3f',
+      corridor: '#232b26',
+      accent: '#86efac',
+      hazard: '#4d7c0f'
+    },
+    decoration: 'bones',
+    monsterPool: ['skeleton', 'zombie', 'abomination', 'chaosWarrior'],
+    hazard: { name: 'Grave miasma', damage: [3, 8], message: 'You stumble through a pall of grave miasma and retch.' },
+    arrival: 'The dead of Hel stir in the grey half-light.'
+  },
+  {
+    id: 'svartalfheim',
+    name: 'Svartalfheim mines',
+    palette: {
+      wall: '#0d0b09',
+      wallSide: '#070504',
+      wallDeep: '#030201',
+      room: '#4a4038',
+      corridor: '#2b2520',
+      accent: '#eab308',
+      hazard: '#78716c'
+    },
+    decoration: 'ore',
+    monsterPool: ['goblin', 'orc', 'abomination', 'gargoyle'],
+    hazard: { name: 'Loose rubble', damage: [2, 7], message: 'Loose rubble shifts and stones tumble from the shaft roof!' },
+    arrival: 'Old dwarven shafts echo with distant picks.'
+  }
+];
+
+export const biomesById: Record<string, Biome> = Object.fromEntries(biomes.map((b) => [b.id, b]));
+
+export const DEFAULT_BIOME = 'niflheim';
+
+/** Realms whose biome is fixed; the rest roll one per floor. */
+const REALM_BIOMES: Record<string, string> = {
+  Midgard: 'niflheim',
+  Svartalfheim: 'svartalfheim',
+  Nidavellir: 'svartalfheim',
+  Muspelheim: 'muspelheim',
+  Niflheim: 'niflheim',
+  Helheim: 'helheim'
+};
+
+/** Biome for a floor in `realm`: the realm's own where it has one, otherwise a random pick. */
+export const biomeForFloor = (realm: string, rng: Rng): Biome => biomesById[REALM_BIOMES[realm]] ?? rng.pick(biomes);
+
+export const biomeFor = (id: string): Biome => biomesById[id] ?? biomesById[DEFAULT_BIOME];
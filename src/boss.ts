@@ -0,0 +1,200 @@
+import { isPassable, updateTiles } from './dungeonGen';
+import { summonMonster } from './monsterAI';
+import { afflictPlayer } from './statuses';
+import { log, StepContext } from './stepContext';
+import { BossCombatState, BossSpecial, GameState, MonsterArchetype, MonsterInstance, Tile } from './types';
+
+export interface BossPhase {
+  name: string;
+  /** The phase begins once the boss is at or below this fraction of its max HP. */
+  threshold: number;
+  /** Added to the boss's ATK for ordinary blows and specials. */
+  atkBonus: number;
+  specials: BossSpecial[];
+  /** Chance per turn, when nothing is telegraphed, to wind up a special instead of attacking. */
+  specialChance: number;
+  /** Logged when the phase begins (not for the opening phase). */
+  intro?: string;
+}
+
+export interface BossDefinition {
+  archetypeId: string;
+  phases: BossPhase[];
+  /** Minion archetypes the boss can call on. */
+  thralls: string[];
+}
+
+export const bossDefinitions: Record<string, BossDefinition> = {
+  frostGiant: {
+    archetypeId: 'frostGiant',
+    thralls: ['skeleton', 'zombie'],
+    phases: [
+      { name: 'Awakened', threshold: 1, atkBonus: 0, specials: ['iceBreath'], specialChance: 0.25 },
+      {
+        name: 'Hrimthurs Fury',
+        threshold: 0.66,
+        atkBonus: 1,
+        specials: ['iceBreath', 'summon'],
+        specialChance: 0.35,
+        intro: 'The Frost Giant bellows, and rime spreads across the walls!'
+      },
+      {
+        name: 'Fimbulwinter',
+        threshold: 0.33,
+        atkBonus: 2,
+        specials: ['iceBreath', 'summon', 'freezeFloor'],
+        specialChance: 0.45,
+        intro: 'The Frost Giant calls down the endless winter. The air itself begins to freeze!'
+      }
+    ]
+  }
+};
+
+export const specialNames: Record<BossSpecial, string> = {
+  iceBreath: 'Ice Breath',
+  summon: 'Summon Thralls',
+  freezeFloor: 'Freeze the Floor'
+};
+
+const telegraphs: Record<BossSpecial, string> = {
+  iceBreath: 'draws in a vast, freezing breath...',
+  summon: 'raises a fist and chants to the dead beneath the ice...',
+  freezeFloor: 'lifts a foot high above the ground...'
+};
+
+const MAX_THRALLS = 3;
+const FREEZE_RADIUS = 2;
+const FREEZE_TURNS = 4;
+const CHILL_DAMAGE = 3;
+/** Turns the hero stays frozen after taking an Ice Breath. */
+const BREATH_FREEZE_TURNS = 2;
+
+export const bossDefinitionFor = (archetypeId: string): BossDefinition | undefined => bossDefinitions[archetypeId];
+
+export const initialBossState = (): BossCombatState => ({ phase: 0, telegraph: null });
+
+/** Highest phase whose threshold the boss's current HP has fallen to. */
+const phaseForHP = (def: BossDefinition, monster: MonsterInstance, archetype: MonsterArchetype) => {
+  const ratio = monster.hp / archetype.maxHP;
+  return def.phases.reduce((phase, p, i) => (ratio <= p.threshold ? i : phase), 0);
+};
+
+const damagePlayer = (state: GameState, damage: number, message: string, ctx: StepContext): GameState => {
+  const hp = state.player.hp - damage;
+  log(ctx, message);
+  ctx.events.push({ type: 'hitFlash', target: 'player' });
+  if (hp <= 0) log(ctx, 'You fall to the dungeon floor...');
+  return { ...state, player: { ...state.player, hp } };
+};
+
+const unleash = (
+  state: GameState,
+  special: BossSpecial,
+  monster: MonsterInstance,
+  archetype: MonsterArchetype,
+  def: BossDefinition,
+  phase: BossPhase,
+  ctx: StepContext
+): GameState => {
+  if (special === 'iceBreath') {
+    const damage = Math.max(2, archetype.atk + phase.atkBonus + ctx.rng.int(4, 9) - Math.floor(state.player.def / 2));
+    ctx.events.push({ type: 'screenShake', duration: 320, intensity: 8 });
+    const breathed = damagePlayer(state, damage, `A blast of Ice Breath engulfs you for ${damage} damage!`, ctx);
+    if (breathed.player.hp <= 0) return breathed;
+    log(ctx, 'Rime crusts over your limbs. You are frozen!');
+    return afflictPlayer(breathed, { kind: 'frozen', turns: BREATH_FREEZE_TURNS }, ctx);
+  }
+
+  if (special === 'summon') {
+    const existing = Object.values(state.monstersById).filter((m) => m.summonedBy === monster.id).length;
+    const count = Math.min(MAX_THRALLS - existing, ctx.rng.int(1, 2));
+    let next = state;
+    let summoned = 0;
+    for (let i = 0; i < count; i++) {
+      const thrallId = ctx.rng.pick(def.thralls);
+      const result = summonMonster(next, thrallId, next.player, ctx);
+      if (!result.id) break;
+      next = {
+        ...result.state,
+        monstersById: { ...result.state.monstersById, [result.id]: { ...result.state.monstersById[result.id], summonedBy: monster.id } }
+      };
+      summoned++;
+    }
+    log(
+      ctx,
+      summoned
+        ? `${summoned} thrall${summoned > 1 ? 's' : ''} burst${summoned > 1 ? '' : 's'} from the ice to serve the ${archetype.name}!`
+        : 'The chant echoes, but nothing answers.'
+    );
+    return next;
+  }
+
+  let tiles = state.tiles;
+  for (let y = state.player.y - FREEZE_RADIUS; y <= state.player.y + FREEZE_RADIUS; y++) {
+    for (let x = state.player.x - FREEZE_RADIUS; x <= state.player.x + FREEZE_RADIUS; x++) {
+      const tile = tiles[y]?.[x];
+      if (!tile || !isPassable(tile)) continue;
+      if (Math.abs(x - state.player.x) + Math.abs(y - state.player.y) > FREEZE_RADIUS) continue;
+      tiles = updateTiles(tiles, x, y, (t) => ({ ...t, frozenTurns: FREEZE_TURNS }));
+    }
+  }
+  ctx.events.push({ type: 'screenShake', duration: 260, intensity: 10 });
+  log(ctx, `The ${archetype.name} stamps and the floor around you freezes solid!`);
+  return { ...state, tiles };
+};
+
+/** Frozen ground bites the hero standing on it, then every patch of ice thaws a little. Runs every turn, in a fight or not. */
+export const tickFrozenFloor = (state: GameState, ctx: StepContext): GameState => {
+  let next = state;
+  const underfoot = state.tiles[state.player.y][state.player.x];
+  if (underfoot.frozenTurns && state.player.hp > 0) {
+    next = damagePlayer(next, CHILL_DAMAGE, `The frozen floor bites at your feet for ${CHILL_DAMAGE} damage.`, ctx);
+  }
+  return { ...next, tiles: thawTiles(next.tiles, 1) };
+};
+
+/** Reduce frozen turns on every tile by `amount` (Infinity thaws everything at once). */
+export const thawTiles = (tiles: Tile[][], amount: number): Tile[][] =>
+  tiles.some((row) => row.some((t) => t.frozenTurns))
+    ? tiles.map((row) =>
+        row.map((t) => (t.frozenTurns ? { ...t, frozenTurns: Math.max(0, t.frozenTurns - amount) || undefined } : t))
+      )
+    : tiles;
+
+/**
+ * The boss's side of a combat round. Checks for a phase change, then either unleashes the
+ * special it telegraphed last turn, winds up a new one, or swings normally.
+ */
+export const bossTurn = (state: GameState, ctx: StepContext): GameState => {
+  const monster = state.combat.monsterId ? state.monstersById[state.combat.monsterId] : undefined;
+  const archetype = monster ? state.archetypesById[monster.archetypeId] : undefined;
+  const def = archetype ? bossDefinitionFor(archetype.id) : undefined;
+  if (!monster || !archetype || !def) return state;
+
+  let boss = state.combat.boss ?? initialBossState();
+  const phaseIndex = phaseForHP(def, monster, archetype);
+  if (phaseIndex > boss.phase) {
+    const intro = def.phases[phaseIndex].intro;
+    if (intro) log(ctx, intro);
+    ctx.events.push({ type: 'screenShake', duration: 400, intensity: 7 });
+    boss = { ...boss, phase: phaseIndex };
+  }
+  const phase = def.phases[boss.phase];
+
+  let next: GameState;
+  if (boss.telegraph) {
+    next = unleash(state, boss.telegraph, monster, archetype, def, phase, ctx);
+    boss = { ...boss, telegraph: null };
+  } else if (phase.specials.length && ctx.rng.chance(phase.specialChance)) {
+    const special = ctx.rng.pick(phase.specials);
+    log(ctx, `The ${archetype.name} ${telegraphs[special]}`);
+    next = state;
+    boss = { ...boss, telegraph: special };
+  } else {
+    const damage = Math.max(1, archetype.atk + phase.atkBonus + ctx.rng.int(1, 6) - state.player.def);
+    if (damage >= 8) ctx.events.push({ type: 'screenShake', duration: 240, intensity: 6 });
+    next = damagePlayer(state, damage, `The ${archetype.name} strikes you for ${damage} damage.`, ctx);
+  }
+
+  return { ...next, combat: { ...next.combat, boss } };
+};
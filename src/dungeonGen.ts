@@ -1,17 +1,32 @@
-import { Tile } from './types';
+import { pickPrefab, PrefabKind, PrefabStamp, stampPrefab } from './prefabs';
+import { Rng } from './rng';
+import { MonsterArchetype, MonsterInstance, Tile, TrapKind } from './types';
 
-interface Rect {
+export interface Rect {
   x: number;
   y: number;
   w: number;
   h: number;
 }
 
-const randomInt = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
+/** True when the rects overlap or touch; rooms keep at least one wall between them. */
+const rectsOverlap = (a: Rect, b: Rect) => a.x <= b.x + b.w && a.x + a.w >= b.x && a.y <= b.y + b.h && a.y + a.h >= b.y;
 
-const rectsOverlap = (a: Rect, b: Rect) => a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+export const MIN_ROOMS = 4;
+/** Placement counts below were tuned for the original 16x16 floor; bigger floors scale them up. */
+const BASE_AREA = 16 * 16;
+/** Random placements tried per layout before settling for the rooms that fit. */
+const ROOM_PLACEMENT_TRIES = 200;
+/** Whole layouts tried before generation gives up. */
+const MAX_GENERATION_ATTEMPTS = 25;
+/** Secret vaults per BASE_AREA of floor, and their inner size range in tiles. */
+const VAULTS_PER_BASE_AREA = 0.5;
+const VAULT_MIN_SIZE = 2;
+const VAULT_MAX_SIZE = 3;
 
-const carveRoom = (tiles: Tile[][], room: Rect) => {
+export const roomCenter = (r: Rect) => ({ x: Math.floor(r.x + r.w / 2), y: Math.floor(r.y + r.h / 2) });
+
+export const carveRoom = (tiles: Tile[][], room: Rect) => {
   for (let y = room.y; y < room.y + room.h; y++) {
     for (let x = room.x; x < room.x + room.w; x++) {
       tiles[y][x] = { ...tiles[y][x], type: 'room', regionType: 'room' };
@@ -19,23 +34,150 @@ const carveRoom = (tiles: Tile[][], room: Rect) => {
   }
 };
 
-const carveCorridor = (tiles: Tile[][], from: { x: number; y: number }, to: { x: number; y: number }) => {
+/**
+ * L-shaped corridor between two points; only walls are dug, so rooms it crosses stay rooms. Tiles
+ * inside `avoid` (prefab rooms) are never dug: the corridor stops at their walkable outer ring.
+ */
+export const carveCorridor = (tiles: Tile[][], from: { x: number; y: number }, to: { x: number; y: number }, avoid: Rect[] = []) => {
+  const dig = (x: number, y: number) => {
+    if (avoid.some((r) => inRect(r, x, y))) return;
+    if (tiles[y][x].type === 'wall') tiles[y][x] = { ...tiles[y][x], type: 'corridor', regionType: 'corridor' };
+  };
   const xDir = to.x > from.x ? 1 : -1;
-  for (let x = from.x; x !== to.x; x += xDir) {
-    tiles[from.y][x] = { ...tiles[from.y][x], type: 'corridor', regionType: 'corridor' };
-  }
+  for (let x = from.x; x !== to.x; x += xDir) dig(x, from.y);
   const yDir = to.y > from.y ? 1 : -1;
-  for (let y = from.y; y !== to.y; y += yDir) {
-    tiles[y][to.x] = { ...tiles[y][to.x], type: 'corridor', regionType: 'corridor' };
+  for (let y = from.y; y !== to.y; y += yDir) dig(to.x, y);
+  dig(to.x, to.y);
+};
+
+/** Order rooms into a chain: start top-left, then always hop to the nearest room not yet linked. */
+const chainRooms = (rooms: Rect[]) => {
+  const remaining = [...rooms].sort((a, b) => a.x + a.y - (b.x + b.y));
+  const chain = remaining.splice(0, 1);
+  while (remaining.length) {
+    const last = roomCenter(chain[chain.length - 1]);
+    let nearest = 0;
+    remaining.forEach((room, i) => {
+      const c = roomCenter(room);
+      const best = roomCenter(remaining[nearest]);
+      if (Math.abs(c.x - last.x) + Math.abs(c.y - last.y) < Math.abs(best.x - last.x) + Math.abs(best.y - last.y)) nearest = i;
+    });
+    chain.push(...remaining.splice(nearest, 1));
+  }
+  return chain;
+};
+
+export const isPassable = (tile: Tile) =>
+  tile.type !== 'wall' && !(tile.type === 'secretDoor' && !tile.revealed) && !(tile.type === 'door' && tile.lockId);
+
+/** Lock id used for the door(s) sealing the boss room. */
+export const BOSS_LOCK = 'boss';
+
+const DIRS = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 }
+];
+
+const inRect = (r: Rect, x: number, y: number) => x >= r.x && x < r.x + r.w && y >= r.y && y < r.y + r.h;
+
+/**
+ * Doorways are corridor tiles just outside a room, squeezed between two walls, so a door there
+ * fills the gap the way it would in a real hall.
+ */
+const isDoorway = (tiles: Tile[][], rooms: Rect[], x: number, y: number) => {
+  const tile = tiles[y]?.[x];
+  if (!tile || tile.type !== 'corridor' || rooms.some((r) => inRect(r, x, y))) return false;
+  const touchesRoom = DIRS.some((d) => rooms.some((r) => inRect(r, x + d.x, y + d.y)));
+  const wall = (dx: number, dy: number) => tiles[y + dy]?.[x + dx]?.type === 'wall';
+  return touchesRoom && ((wall(-1, 0) && wall(1, 0)) || (wall(0, -1) && wall(0, 1)));
+};
+
+/** Flood-fill from `from` through passable tiles; locked doors count as walls. */
+export const reachableFrom = (tiles: Tile[][], from: { x: number; y: number }) => {
+  const seen = new Set<string>([`${from.x},${from.y}`]);
+  const queue = [from];
+  const reached: { x: number; y: number }[] = [];
+  while (queue.length) {
+    const p = queue.shift()!;
+    reached.push(p);
+    DIRS.forEach((d) => {
+      const next = { x: p.x + d.x, y: p.y + d.y };
+      const tile = tiles[next.y]?.[next.x];
+      if (!tile || !isPassable(tile) || seen.has(`${next.x},${next.y}`)) return;
+      seen.add(`${next.x},${next.y}`);
+      queue.push(next);
+    });
   }
-  tiles[to.y][to.x] = { ...tiles[to.y][to.x], type: 'corridor', regionType: 'corridor' };
+  return reached;
 };
 
-const isPassable = (tile: Tile) => tile.type !== 'wall' && !(tile.type === 'secretDoor' && !tile.revealed);
+/**
+ * Hang doors in doorways, seal the boss room behind a locked door and sometimes lock one more.
+ * Every key is dropped somewhere reachable from the start with all locks still shut, so no
+ * floor can be generated unwinnable.
+ */
+export const placeDoors = (tiles: Tile[][], rooms: Rect[], start: { x: number; y: number }, boss: { x: number; y: number }, rng: Rng) => {
+  const setDoor = (x: number, y: number, lockId: string | null) => {
+    tiles[y][x] = { ...tiles[y][x], type: 'door', regionType: 'corridor', open: false, lockId };
+  };
+
+  const bossRoom = rooms.find((r) => inRect(r, boss.x, boss.y));
+  const locks: string[] = [];
+  if (bossRoom) {
+    const entrances: { x: number; y: number }[] = [];
+    for (let y = bossRoom.y - 1; y <= bossRoom.y + bossRoom.h; y++) {
+      for (let x = bossRoom.x - 1; x <= bossRoom.x + bossRoom.w; x++) {
+        if (inRect(bossRoom, x, y) || !DIRS.some((d) => inRect(bossRoom, x + d.x, y + d.y))) continue;
+        const tile = tiles[y]?.[x];
+        if (tile && tile.type !== 'wall') entrances.push({ x, y });
+      }
+    }
+    // Only seal when every entrance is a plain corridor tile; a neighbouring room or the start
+    // touching the boss room would otherwise turn floor space into doors.
+    const sealable = entrances.every(({ x, y }) => tiles[y][x].type === 'corridor' && !rooms.some((r) => inRect(r, x, y)));
+    if (entrances.length && sealable) {
+      entrances.forEach(({ x, y }) => setDoor(x, y, BOSS_LOCK));
+      locks.push(BOSS_LOCK);
+    }
+  }
+
+  const doorways: { x: number; y: number }[] = [];
+  tiles.forEach((row, y) =>
+    row.forEach((_, x) => {
+      if (isDoorway(tiles, rooms, x, y) && rng.chance(0.6)) doorways.push({ x, y });
+    })
+  );
+  doorways.forEach(({ x, y }) => setDoor(x, y, null));
+  if (doorways.length && rng.chance(0.5)) {
+    const { x, y } = rng.pick(doorways);
+    setDoor(x, y, 'iron');
+    locks.push('iron');
+  }
+
+  const spots = reachableFrom(tiles, start).filter(
+    ({ x, y }) => (tiles[y][x].type === 'room' || tiles[y][x].type === 'corridor') && !(x === start.x && y === start.y)
+  );
+  locks.forEach((lockId) => {
+    if (!spots.length) return;
+    const { x, y } = spots.splice(rng.int(0, spots.length - 1), 1)[0];
+    tiles[y][x] = { ...tiles[y][x], keyFor: lockId };
+  });
+};
+
+export const keyName = (lockId: string) => (lockId === BOSS_LOCK ? "Jarl's Hall Key" : 'Iron Key');
 
 const inferRegionType = (tile: Tile): 'room' | 'corridor' => {
   if (tile.regionType) return tile.regionType;
-  if (tile.type === 'room' || tile.type === 'start' || tile.type === 'boss' || tile.type === 'treasure') {
+  if (
+    tile.type === 'room' ||
+    tile.type === 'start' ||
+    tile.type === 'boss' ||
+    tile.type === 'treasure' ||
+    tile.type === 'stairs' ||
+    tile.type === 'runeStone'
+  ) {
     return 'room';
   }
   return 'corridor';
@@ -91,46 +233,129 @@ export const labelRegions = (tiles: Tile[][]): Tile[][] => {
   return updated;
 };
 
-export const generateDungeon = (
-  gridSize: number
-): { tiles: Tile[][]; start: { x: number; y: number }; boss: { x: number; y: number } } => {
-  const tiles: Tile[][] = Array.from({ length: gridSize }, () =>
-    Array.from(
-      { length: gridSize },
-      () => ({ type: 'wall', explored: false, visible: false, regionType: undefined }) as Tile
-    )
+export interface DungeonLayout {
+  tiles: Tile[][];
+  start: { x: number; y: number };
+  boss: { x: number; y: number };
+}
+
+export interface DungeonGenerationResult {
+  /** The first layout that validated, or null when every attempt failed. */
+  layout: DungeonLayout | null;
+  attempts: number;
+  /** Problems with the last failed attempt; empty on success. */
+  problems: string[];
+}
+
+export interface DungeonValidation {
+  valid: boolean;
+  problems: string[];
+}
+
+const findTile = (tiles: Tile[][], type: Tile['type']) => {
+  for (let y = 0; y < tiles.length; y++) {
+    const x = tiles[y].findIndex((tile) => tile.type === type);
+    if (x >= 0) return { x, y };
+  }
+  return null;
+};
+
+/** Count 4-connected patches of room floor; corridors don't join rooms together. */
+const countRooms = (tiles: Tile[][]) => {
+  const seen = new Set<string>();
+  let count = 0;
+  tiles.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile.regionType !== 'room' || !isPassable(tile) || seen.has(`${x},${y}`)) return;
+      count++;
+      const queue = [{ x, y }];
+      seen.add(`${x},${y}`);
+      while (queue.length) {
+        const p = queue.shift()!;
+        DIRS.forEach((d) => {
+          const next = tiles[p.y + d.y]?.[p.x + d.x];
+          const key = `${p.x + d.x},${p.y + d.y}`;
+          if (!next || next.regionType !== 'room' || !isPassable(next) || seen.has(key)) return;
+          seen.add(key);
+          queue.push({ x: p.x + d.x, y: p.y + d.y });
+        });
+      }
+    })
   );
+  return count;
+};
 
-  const rooms: Rect[] = [];
-  const roomCount = randomInt(4, 7);
+/**
+ * Check that a floor is playable: it has a start and a boss, enough rooms, every lock has a key
+ * the player can reach, and the boss can be reached from the start once those keys are used.
+ * Reachability is taken from `labelRegions`, re-run each time a newly reachable key opens a lock.
+ */
+export const validateDungeon = (tiles: Tile[][], options: { minRooms?: number } = {}): DungeonValidation => {
+  const problems: string[] = [];
+  const start = findTile(tiles, 'start');
+  const boss = findTile(tiles, 'boss');
+  if (!start) problems.push('The floor has no start tile.');
+  if (!boss) problems.push('The floor has no boss tile.');
 
-  for (let i = 0; i < roomCount; i++) {
-    const w = randomInt(3, 5);
-    const h = randomInt(3, 5);
-    const x = randomInt(1, gridSize - w - 1);
-    const y = randomInt(1, gridSize - h - 1);
-    const newRoom = { x, y, w, h };
+  const minRooms = options.minRooms ?? MIN_ROOMS;
+  const rooms = countRooms(tiles);
+  if (rooms < minRooms) problems.push(`Only ${rooms} room${rooms === 1 ? '' : 's'}; at least ${minRooms} required.`);
 
-    if (rooms.some((room) => rectsOverlap(room, newRoom))) {
-      i--;
-      continue;
+  if (start) {
+    const unlocked = new Set<string>();
+    let labeled = labelRegions(tiles);
+    for (;;) {
+      const region = labeled[start.y][start.x].regionId;
+      const found = labeled
+        .flat()
+        .filter((tile) => tile.keyFor && tile.regionId === region && !unlocked.has(tile.keyFor))
+        .map((tile) => tile.keyFor!);
+      if (!found.length) break;
+      found.forEach((lockId) => unlocked.add(lockId));
+      labeled = labelRegions(tiles.map((row) => row.map((t) => (t.lockId && unlocked.has(t.lockId) ? { ...t, lockId: null } : t))));
     }
 
-    rooms.push(newRoom);
-    carveRoom(tiles, newRoom);
+    const locks = new Set(tiles.flat().map((tile) => tile.lockId).filter((id): id is string => !!id));
+    locks.forEach((lockId) => {
+      if (!unlocked.has(lockId)) problems.push(`The ${keyName(lockId)} is missing or out of reach.`);
+    });
+    if (boss && labeled[boss.y][boss.x].regionId !== labeled[start.y][start.x].regionId) {
+      problems.push('The boss cannot be reached from the start.');
+    }
   }
 
-  rooms.sort((a, b) => a.x - b.x + (a.y - b.y));
+  return { valid: problems.length === 0, problems };
+};
+
+/**
+ * A floor layout algorithm. `generate` makes one attempt, which may come out unplayable;
+ * `generateDungeon` validates it and asks again if needed.
+ */
+export interface DungeonGenerator {
+  id: string;
+  name: string;
+  /** Fewest separate rooms a valid layout needs; open caves count as a single room. */
+  minRooms: number;
+  generate: (width: number, height: number, rng: Rng) => DungeonLayout;
+}
+
+/** How many times bigger than the original 16x16 floor this map is (never below 1). */
+export const areaScale = (width: number, height: number) => Math.max(1, (width * height) / BASE_AREA);
 
-  for (let i = 0; i < rooms.length - 1; i++) {
-    const current = rooms[i];
-    const next = rooms[i + 1];
-    const currentCenter = { x: Math.floor(current.x + current.w / 2), y: Math.floor(current.y + current.h / 2) };
-    const nextCenter = { x: Math.floor(next.x + next.w / 2), y: Math.floor(next.y + next.h / 2) };
-    carveCorridor(tiles, currentCenter, nextCenter);
-  }
+/** Scale a count tuned for the original floor size to the size of `tiles`. */
+const scaledCount = (tiles: Tile[][], count: number) => Math.round(count * areaScale(tiles[0]?.length ?? 0, tiles.length));
 
-  const centers = rooms.map((r) => ({ x: Math.floor(r.x + r.w / 2), y: Math.floor(r.y + r.h / 2) }));
+export const createWallGrid = (width: number, height: number): Tile[][] =>
+  Array.from({ length: height }, () =>
+    Array.from(
+      { length: width },
+      () => ({ type: 'wall', explored: false, visible: false, regionType: undefined }) as Tile
+    )
+  );
+
+/** Start in the centre of the first room and put the boss in the room centre farthest from it. */
+export const markStartAndBoss = (tiles: Tile[][], rooms: Rect[]) => {
+  const centers = rooms.map(roomCenter);
   const start = centers[0] ?? { x: 1, y: 1 };
   tiles[start.y][start.x] = { ...tiles[start.y][start.x], type: 'start', regionType: 'room' };
 
@@ -145,6 +370,519 @@ export const generateDungeon = (
   });
 
   tiles[boss.y][boss.x] = { ...tiles[boss.y][boss.x], type: 'boss', regionType: 'room' };
+  return { start, boss };
+};
+
+/** Chance that a room is stamped from a prefab template instead of left a plain rectangle. */
+export const PREFAB_CHANCE = 0.35;
+export const ROOM_PREFABS: PrefabKind[] = ['shrine', 'hall', 'vault'];
+
+/** Turn the boss's room into an arena when one fits and the room isn't a prefab already. */
+export const furnishBossRoom = (tiles: Tile[][], rooms: Rect[], prefabRooms: Rect[], boss: { x: number; y: number }, rng: Rng) => {
+  const room = rooms.find((r) => inRect(r, boss.x, boss.y));
+  if (!room || prefabRooms.includes(room)) return;
+  const arena = pickPrefab(['arena'], room.w, room.h, rng);
+  if (!arena) return;
+  stampPrefab(tiles, room, arena);
+  prefabRooms.push(room);
+  tiles[boss.y][boss.x] = { ...tiles[boss.y][boss.x], type: 'boss', regionType: 'room' };
+};
+
+/** The original layout: scattered rectangular rooms chained together by L-shaped corridors. */
+export const roomsAndCorridors: DungeonGenerator = {
+  id: 'rooms',
+  name: 'Halls and corridors',
+  minRooms: MIN_ROOMS,
+  generate: (width, height, rng) => {
+    const tiles = createWallGrid(width, height);
+    const placed: Rect[] = [];
+    const scale = areaScale(width, height);
+    const roomCount = Math.round(rng.int(4, 7) * scale);
+    // Larger floors get somewhat larger rooms as well as more of them.
+    const maxSide = Math.min(7, 3 + Math.floor(Math.min(width, height) / 8));
+
+    const prefabRooms: Rect[] = [];
+
+    for (let tries = 0; placed.length < roomCount && tries < ROOM_PLACEMENT_TRIES * scale; tries++) {
+      const stamp: PrefabStamp | null = rng.chance(PREFAB_CHANCE) ? pickPrefab(ROOM_PREFABS, width - 2, height - 2, rng) : null;
+      const w = stamp ? stamp.rows[0].length : rng.int(3, maxSide);
+      const h = stamp ? stamp.rows.length : rng.int(3, maxSide);
+      const x = rng.int(1, width - w - 1);
+      const y = rng.int(1, height - h - 1);
+      const newRoom = { x, y, w, h };
+      if (placed.some((room) => rectsOverlap(room, newRoom))) continue;
+      placed.push(newRoom);
+      if (stamp) {
+        stampPrefab(tiles, newRoom, stamp);
+        prefabRooms.push(newRoom);
+      } else {
+        carveRoom(tiles, newRoom);
+      }
+    }
+
+    const rooms = chainRooms(placed);
+    for (let i = 0; i < rooms.length - 1; i++) {
+      carveCorridor(tiles, roomCenter(rooms[i]), roomCenter(rooms[i + 1]), prefabRooms);
+    }
+
+    const { start, boss } = markStartAndBoss(tiles, rooms);
+    furnishBossRoom(tiles, rooms, prefabRooms, boss, rng);
+    placeDoors(tiles, rooms, start, boss, rng);
+    return { tiles, start, boss };
+  }
+};
+
+/**
+ * Generate a floor, retrying whole layouts until one passes `validateDungeon`. Gives up after
+ * MAX_GENERATION_ATTEMPTS and reports what was wrong with the last attempt.
+ */
+export const generateDungeon = (
+  width: number,
+  height: number,
+  rng: Rng,
+  generator: DungeonGenerator = roomsAndCorridors
+): DungeonGenerationResult => {
+  let problems: string[] = [];
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const layout = generator.generate(width, height, rng);
+    const validation = validateDungeon(layout.tiles, { minRooms: generator.minRooms });
+    if (validation.valid) return { layout, attempts: attempt, problems: [] };
+    problems = validation.problems;
+  }
+  return { layout: null, attempts: MAX_GENERATION_ATTEMPTS, problems };
+};
+
+export const updateTiles = (tiles: Tile[][], x: number, y: number, updater: (tile: Tile) => Tile) => {
+  return tiles.map((row, rowIndex) =>
+    rowIndex === y ? row.map((tile, colIndex) => (colIndex === x ? updater(tile) : tile)) : row
+  );
+};
+
+/** `rollKind` picks what each trap does (see `traps.ts`), prefab traps included; it is stored as `Tile.trapKind`. */
+export const placeTraps = (
+  tiles: Tile[][],
+  start: { x: number; y: number },
+  boss: { x: number; y: number },
+  rng: Rng,
+  rollKind: (rng: Rng) => TrapKind = () => 'spike'
+) => {
+  const candidates: { x: number; y: number }[] = [];
+  tiles.forEach((row, y) => {
+    row.forEach((tile, x) => {
+      if ((tile.type === 'room' || tile.type === 'corridor') && !(x === start.x && y === start.y) && !(x === boss.x && y === boss.y)) {
+        candidates.push({ x, y });
+      }
+    });
+  });
+
+  // Traps stamped from prefab templates carry no kind yet; roll one for each like any other trap.
+  let updated = tiles.map((row) => row.map((tile) => (tile.type === 'trap' && !tile.trapKind ? { ...tile, trapKind: rollKind(rng) } : tile)));
+  const traps = scaledCount(tiles, rng.int(3, 6));
+  let placed = 0;
+  while (placed < traps && candidates.length) {
+    const idx = rng.int(0, candidates.length - 1);
+    const { x, y } = candidates.splice(idx, 1)[0];
+    const trapKind = rollKind(rng);
+    updated = updateTiles(updated, x, y, (tile) => ({ ...tile, type: 'trap', revealed: false, triggered: false, trapKind }));
+    placed++;
+  }
+
+  return updated;
+};
+
+/** `rollLoot` decides what, besides gold, each chest holds; its result is stored as `Tile.lootId`. */
+export const placeTreasures = (
+  tiles: Tile[][],
+  start: { x: number; y: number },
+  boss: { x: number; y: number },
+  rng: Rng,
+  rollLoot: (rng: Rng) => string | null = () => null
+) => {
+  const candidates: { x: number; y: number }[] = [];
+  tiles.forEach((row, y) => {
+    row.forEach((tile, x) => {
+      if ((tile.type === 'room' || tile.type === 'corridor') && !(x === start.x && y === start.y) && !(x === boss.x && y === boss.y)) {
+        candidates.push({ x, y });
+      }
+    });
+  });
+
+  const treasures = scaledCount(tiles, rng.int(3, 6));
+  let updated = tiles;
+  // Chests stamped by prefab vaults have not had their contents rolled yet.
+  tiles.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile.type === 'treasure' && tile.lootId === undefined) {
+        const lootId = rollLoot(rng);
+        updated = updateTiles(updated, x, y, (t) => ({ ...t, lootId }));
+      }
+    })
+  );
+  for (let i = 0; i < treasures && candidates.length; i++) {
+    const idx = rng.int(0, candidates.length - 1);
+    const { x, y } = candidates.splice(idx, 1)[0];
+    const lootId = rollLoot(rng);
+    updated = updateTiles(updated, x, y, (tile) => ({ ...tile, type: 'treasure', lootId }));
+  }
+
+  return updated;
+};
+
+/** Rune stones stand inside rooms (never corridors) so there is space to gather around them. */
+export const placeRuneStones = (
+  tiles: Tile[][],
+  start: { x: number; y: number },
+  boss: { x: number; y: number },
+  rng: Rng
+) => {
+  const candidates: { x: number; y: number }[] = [];
+  tiles.forEach((row, y) => {
+    row.forEach((tile, x) => {
+      if (tile.type === 'room' && !(x === start.x && y === start.y) && !(x === boss.x && y === boss.y)) {
+        candidates.push({ x, y });
+      }
+    });
+  });
+
+  const stones = scaledCount(tiles, rng.int(1, 2));
+  let updated = tiles;
+  for (let i = 0; i < stones && candidates.length; i++) {
+    const idx = rng.int(0, candidates.length - 1);
+    const { x, y } = candidates.splice(idx, 1)[0];
+    updated = updateTiles(updated, x, y, (tile) => ({ ...tile, type: 'runeStone', triggered: false }));
+  }
+
+  return updated;
+};
+
+/** Scatter the biome's hazard ground over rooms and corridors, keeping clear of the start and boss. */
+export const placeHazards = (
+  tiles: Tile[][],
+  start: { x: number; y: number },
+  boss: { x: number; y: number },
+  rng: Rng
+) => {
+  const nearby = (x: number, y: number, p: { x: number; y: number }) => Math.max(Math.abs(x - p.x), Math.abs(y - p.y)) <= 1;
+  const candidates: { x: number; y: number }[] = [];
+  tiles.forEach((row, y) => {
+    row.forEach((tile, x) => {
+      if ((tile.type === 'room' || tile.type === 'corridor') && !nearby(x, y, start) && !nearby(x, y, boss)) {
+        candidates.push({ x, y });
+      }
+    });
+  });
+
+  const hazards = scaledCount(tiles, rng.int(2, 4));
+  let updated = tiles;
+  for (let i = 0; i < hazards && candidates.length; i++) {
+    const idx = rng.int(0, candidates.length - 1);
+    const { x, y } = candidates.splice(idx, 1)[0];
+    // Keep the region type so a hazard inside a room still counts as part of it.
+    updated = updateTiles(updated, x, y, (tile) => ({ ...tile, type: 'hazard', regionType: tile.type === 'room' ? 'room' : 'corridor' }));
+  }
+
+  return updated;
+};
+
+/**
+ * Dig small hidden rooms into solid rock, each reachable only through one secret door off an
+ * existing room or corridor, and stock them with chests from `rollLoot`. Vault tiles are flagged
+ * so `placeSecretDoors` never opens a second way in. Returns freshly labelled tiles.
+ */
+export const carveSecretVaults = (tiles: Tile[][], rng: Rng, rollLoot: (rng: Rng) => string | null = () => null) => {
+  const height = tiles.length;
+  const width = tiles[0]?.length ?? 0;
+  const updated = tiles.map((row) => row.slice());
+  const solid = (x: number, y: number, w: number, h: number) => {
+    for (let yy = y; yy < y + h; yy++) {
+      for (let xx = x; xx < x + w; xx++) {
+        if (updated[yy]?.[xx]?.type !== 'wall') return false;
+      }
+    }
+    return true;
+  };
+
+  type Entrance = { door: { x: number; y: number }; outside: { x: number; y: number }; inside: { x: number; y: number } };
+  /** Spots on the vault's wall ring, not corners, whose far side is already open floor. */
+  const entrancesFor = (x: number, y: number, w: number, h: number) => {
+    const ring: Entrance[] = [];
+    for (let i = 0; i < w; i++) {
+      ring.push({ door: { x: x + i, y: y - 1 }, outside: { x: x + i, y: y - 2 }, inside: { x: x + i, y } });
+      ring.push({ door: { x: x + i, y: y + h }, outside: { x: x + i, y: y + h + 1 }, inside: { x: x + i, y: y + h - 1 } });
+    }
+    for (let j = 0; j < h; j++) {
+      ring.push({ door: { x: x - 1, y: y + j }, outside: { x: x - 2, y: y + j }, inside: { x, y: y + j } });
+      ring.push({ door: { x: x + w, y: y + j }, outside: { x: x + w + 1, y: y + j }, inside: { x: x + w - 1, y: y + j } });
+    }
+    return ring.filter(({ outside }) => {
+      const type = updated[outside.y]?.[outside.x]?.type;
+      return type === 'room' || type === 'corridor';
+    });
+  };
+
+  const doors: Entrance[] = [];
+  const wanted = scaledCount(tiles, VAULTS_PER_BASE_AREA);
+  while (doors.length < wanted) {
+    const w = rng.int(VAULT_MIN_SIZE, VAULT_MAX_SIZE);
+    const h = rng.int(VAULT_MIN_SIZE, VAULT_MAX_SIZE);
+    // Every spot where the vault and the wall ring around it are untouched rock, so the door is the only way in.
+    const spots: { x: number; y: number; entrances: Entrance[] }[] = [];
+    for (let y = 2; y + h + 2 <= height; y++) {
+      for (let x = 2; x + w + 2 <= width; x++) {
+        if (!solid(x - 1, y - 1, w + 2, h + 2)) continue;
+        const entrances = entrancesFor(x, y, w, h);
+        if (entrances.length) spots.push({ x, y, entrances });
+      }
+    }
+    if (!spots.length) break;
+
+    const { x, y, entrances } = rng.pick(spots);
+    const entrance = rng.pick(entrances);
+    const cells: { x: number; y: number }[] = [];
+    for (let yy = y; yy < y + h; yy++) {
+      for (let xx = x; xx < x + w; xx++) {
+        updated[yy][xx] = { ...updated[yy][xx], type: 'room', regionType: 'room', vault: true };
+        if (xx !== entrance.inside.x || yy !== entrance.inside.y) cells.push({ x: xx, y: yy });
+      }
+    }
+    updated[entrance.door.y][entrance.door.x] = { ...updated[entrance.door.y][entrance.door.x], type: 'secretDoor', revealed: false };
+    const chests = rng.int(1, 2);
+    for (let c = 0; c < chests && cells.length; c++) {
+      const cell = cells.splice(rng.int(0, cells.length - 1), 1)[0];
+      updated[cell.y][cell.x] = { ...updated[cell.y][cell.x], type: 'treasure', lootId: rollLoot(rng) };
+    }
+    doors.push(entrance);
+  }
+
+  let labeled = labelRegions(updated);
+  doors.forEach(({ door, outside, inside }) => {
+    const links: [number, number] = [labeled[outside.y][outside.x].regionId, labeled[inside.y][inside.x].regionId];
+    labeled = updateTiles(labeled, door.x, door.y, (tile) => ({ ...tile, secretDoorLinks: links }));
+  });
+  return labeled;
+};
+
+// Secret doors are only carved along boundaries between distinct passable regions.
+export const placeSecretDoors = (tiles: Tile[][], rng: Rng) => {
+  const candidates: { x: number; y: number; regions: [number, number] }[] = [];
+  const dirs = [
+    { x: 1, y: 0 },
+    { x: -1, y: 0 },
+    { x: 0, y: 1 },
+    { x: 0, y: -1 }
+  ];
+
+  for (let y = 1; y < tiles.length - 1; y++) {
+    for (let x = 1; x < tiles[0].length - 1; x++) {
+      const tile = tiles[y][x];
+      if (tile.type !== 'wall') continue;
+      if (dirs.some((d) => tiles[y + d.y][x + d.x].vault)) continue;
+
+      const neighborRegions = new Set<number>();
+      dirs.forEach((d) => {
+        const neighbor = tiles[y + d.y][x + d.x];
+        if (neighbor.regionId !== undefined) {
+          neighborRegions.add(neighbor.regionId);
+        }
+      });
+
+      if (neighborRegions.size >= 2) {
+        const [a, b] = Array.from(neighborRegions) as [number, number];
+        candidates.push({ x, y, regions: [a, b] });
+      }
+    }
+  }
+
+  const secrets = candidates.length === 0 ? 0 : Math.min(candidates.length, scaledCount(tiles, rng.int(1, 2)));
+  let updated = tiles;
+  for (let i = 0; i < secrets && candidates.length; i++) {
+    const idx = rng.int(0, candidates.length - 1);
+    const { x, y, regions } = candidates.splice(idx, 1)[0];
+    updated = updateTiles(updated, x, y, (tile) => ({
+      ...tile,
+      type: 'secretDoor',
+      revealed: false,
+      secretDoorLinks: regions
+    }));
+  }
+
+  return updated;
+};
+
+/** No monster starts within this many tiles (Chebyshev) of the start tile. */
+export const SAFE_RADIUS = 5;
+/** An area's share of the floor's budget: a base weight plus more for every step of path distance. */
+const BUDGET_BASE = 1;
+const BUDGET_PER_STEP = 0.1;
+/** Corridors get a fraction of a room's budget, so they hold stragglers rather than packs. */
+const CORRIDOR_BUDGET_SHARE = 0.4;
+/** Rooms larger than this (caves, tunnels) are split into bands by distance, as corridors are. */
+const MAX_ENCOUNTER_AREA = 48;
+const DISTANCE_BAND = 8;
+/** Chance that a chest outside the safe radius gets an elite guard. */
+const GUARD_CHANCE = 0.3;
+/** At most one monster per this many floor tiles of an area. */
+const TILES_PER_MONSTER = 3;
+
+const encounterCost = (archetype: MonsterArchetype) => (archetype.tier === 'elite' ? 3 : 1);
+
+/** Path distance from `from` to every tile, walking through any door (locked or secret). */
+const distancesFrom = (tiles: Tile[][], from: { x: number; y: number }) => {
+  const dist = tiles.map((row) => row.map(() => Infinity));
+  dist[from.y][from.x] = 0;
+  const queue = [from];
+  for (let i = 0; i < queue.length; i++) {
+    const p = queue[i];
+    DIRS.forEach((d) => {
+      const x = p.x + d.x;
+      const y = p.y + d.y;
+      if (!tiles[y]?.[x] || tiles[y][x].type === 'wall' || dist[y][x] !== Infinity) return;
+      dist[y][x] = dist[p.y][p.x] + 1;
+      queue.push({ x, y });
+    });
+  }
+  return dist;
+};
+
+interface EncounterArea {
+  corridor: boolean;
+  tiles: { x: number; y: number }[];
+  /** Path distance from the start to the area's nearest tile. */
+  distance: number;
+}
+
+/**
+ * Split the walkable floor into encounter areas: each room is one, while corridors and very large
+ * rooms are cut into bands of DISTANCE_BAND steps so a long tunnel doesn't become one giant area.
+ */
+const encounterAreas = (tiles: Tile[][], dist: number[][]): EncounterArea[] => {
+  const rooms = new Map<string, number>();
+  const roomSizes: number[] = [];
+  tiles.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile.regionType !== 'room' || tile.type === 'wall' || rooms.has(`${x},${y}`)) return;
+      const id = roomSizes.length;
+      const queue = [{ x, y }];
+      rooms.set(`${x},${y}`, id);
+      for (let i = 0; i < queue.length; i++) {
+        DIRS.forEach((d) => {
+          const next = { x: queue[i].x + d.x, y: queue[i].y + d.y };
+          const key = `${next.x},${next.y}`;
+          const t = tiles[next.y]?.[next.x];
+          if (!t || t.regionType !== 'room' || t.type === 'wall' || rooms.has(key)) return;
+          rooms.set(key, id);
+          queue.push(next);
+        });
+      }
+      roomSizes.push(queue.length);
+    })
+  );
+
+  const areas = new Map<string, EncounterArea>();
+  tiles.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile.type === 'wall' || dist[y][x] === Infinity) return;
+      const room = rooms.get(`${x},${y}`);
+      const band = Math.floor(dist[y][x] / DISTANCE_BAND);
+      const key =
+        room === undefined ? `corridor-${band}` : roomSizes[room] > MAX_ENCOUNTER_AREA ? `room-${room}-${band}` : `room-${room}`;
+      const area = areas.get(key) ?? { corridor: room === undefined, tiles: [], distance: Infinity };
+      area.tiles.push({ x, y });
+      area.distance = Math.min(area.distance, dist[y][x]);
+      areas.set(key, area);
+    })
+  );
+  return [...areas.values()];
+};
+
+/**
+ * Populate a floor by encounter budget. Each area gets a share of the floor's budget that grows
+ * with its path distance from the start (minions cost 1, elites 3) and spends it on one theme;
+ * some chests are guarded by an elite where the pool has one, and nothing spawns within
+ * SAFE_RADIUS of the start. `themes` are archetype id groups; without any, all archetypes mix.
+ */
+export const spawnMonsters = (
+  tiles: Tile[][],
+  start: { x: number; y: number },
+  boss: { x: number; y: number },
+  archetypes: MonsterArchetype[],
+  rng: Rng,
+  themes: string[][] = []
+): { tiles: Tile[][]; monstersById: Record<string, MonsterInstance> } => {
+  let updatedTiles = tiles;
+  const monstersById: Record<string, MonsterInstance> = {};
+  const occupied = new Set<string>();
+  const dist = distancesFrom(tiles, start);
+  const nonBossArchetypes = archetypes.filter((a) => a.tier !== 'boss');
+  const elites = nonBossArchetypes.filter((a) => a.tier === 'elite');
+
+  const canSpawn = (x: number, y: number) => {
+    const tile = tiles[y]?.[x];
+    return (
+      !!tile &&
+      (tile.type === 'room' || tile.type === 'corridor') &&
+      Math.max(Math.abs(x - start.x), Math.abs(y - start.y)) > SAFE_RADIUS &&
+      !(x === boss.x && y === boss.y) &&
+      !occupied.has(`${x},${y}`)
+    );
+  };
+  const place = (archetype: MonsterArchetype, x: number, y: number) => {
+    const id = `${archetype.id}-${Object.keys(monstersById).length}`;
+    monstersById[id] = { id, archetypeId: archetype.id, hp: archetype.maxHP, pos: { x, y } };
+    occupied.add(`${x},${y}`);
+    updatedTiles = updateTiles(updatedTiles, x, y, (tile) => ({ ...tile, monsterId: id }));
+  };
+
+  const areas = encounterAreas(tiles, dist);
+  const areaOf = new Map<string, number>();
+  areas.forEach((area, i) => area.tiles.forEach((p) => areaOf.set(`${p.x},${p.y}`, i)));
+  // The floor's total budget matches the old flat monster count; areas split it by weight.
+  const total = scaledCount(tiles, rng.int(6, 10));
+  const weights = areas.map((area) => (BUDGET_BASE + BUDGET_PER_STEP * area.distance) * (area.corridor ? CORRIDOR_BUDGET_SHARE : 1));
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  const budgets = weights.map((w) => {
+    const budget = (total * w) / weightSum;
+    return Math.floor(budget) + (rng.chance(budget % 1) ? 1 : 0);
+  });
+
+  // Elites guard chests first; their cost comes out of the surrounding area's budget.
+  tiles.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile.type !== 'treasure' || !elites.length || Math.max(Math.abs(x - start.x), Math.abs(y - start.y)) <= SAFE_RADIUS) return;
+      if (!rng.chance(GUARD_CHANCE)) return;
+      const posts = DIRS.map((d) => ({ x: x + d.x, y: y + d.y })).filter((p) => canSpawn(p.x, p.y));
+      if (!posts.length) return;
+      const post = rng.pick(posts);
+      const elite = rng.pick(elites);
+      place(elite, post.x, post.y);
+      const area = areaOf.get(`${post.x},${post.y}`);
+      if (area !== undefined) budgets[area] -= encounterCost(elite);
+    })
+  );
+
+  const groups = themes
+    .map((ids) => nonBossArchetypes.filter((a) => ids.includes(a.id)))
+    .filter((group) => group.some((a) => a.tier !== 'elite'));
+  areas.forEach((area, i) => {
+    const group = groups.length ? rng.pick(groups) : nonBossArchetypes;
+    const spots = area.tiles.filter((p) => canSpawn(p.x, p.y));
+    let budget = Math.min(budgets[i], Math.floor(area.tiles.length / TILES_PER_MONSTER));
+    while (budget > 0 && spots.length) {
+      const affordable = group.filter((a) => encounterCost(a) <= budget);
+      if (!affordable.length) break;
+      const archetype = rng.pick(affordable);
+      const { x, y } = spots.splice(rng.int(0, spots.length - 1), 1)[0];
+      place(archetype, x, y);
+      budget -= encounterCost(archetype);
+    }
+  });
+
+  const bossArchetype = archetypes.find((a) => a.tier === 'boss');
+  if (bossArchetype) {
+    const bossId = `${bossArchetype.id}-boss`;
+    monstersById[bossId] = { id: bossId, archetypeId: bossArchetype.id, hp: bossArchetype.maxHP, pos: boss };
+    updatedTiles = updateTiles(updatedTiles, boss.x, boss.y, (tile) => ({ ...tile, monsterId: bossId }));
+  }
 
-  return { tiles, start, boss };
+  return { tiles: updatedTiles, monstersById };
 };
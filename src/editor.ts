@@ -0,0 +1,133 @@
+import { archetypes } from './archetypes';
+import { AsciiMap, blankTile } from './asciiMap';
+import { labelRegions, updateTiles } from './dungeonGen';
+import { Tile, TileType } from './types';
+
+/**
+ * Editing operations for the level editor. Drafts are plain `AsciiMap`s, so whatever the editor
+ * produces can be exported as text and play-tested with `createGameFromMap` unchanged.
+ */
+
+export type EditorToolKind = 'tile' | 'monster' | 'eraseMonster' | 'link';
+
+export interface EditorTool {
+  kind: EditorToolKind;
+  /** Brush for the `tile` tool. */
+  tileType?: TileType;
+  /** Archetype placed by the `monster` tool. */
+  archetypeId?: string;
+}
+
+/** Tiles a monster cannot stand on. */
+const isSolid = (tile: Tile) => tile.type === 'wall' || tile.type === 'secretDoor';
+
+const bossArchetypeIds = new Set(archetypes.filter((a) => a.tier === 'boss').map((a) => a.id));
+
+/** An all-wall map to carve into. */
+export const blankMap = (width: number, height: number): AsciiMap => ({
+  tiles: Array.from({ length: height }, () => Array.from({ length: width }, () => blankTile('wall'))),
+  monsters: []
+});
+
+/**
+ * Strip what a run leaves behind on its tiles (sight, region labels, monster ids, wounds) so a
+ * floor can be edited and played again from scratch. Doors, traps and loot keep their state.
+ */
+export const draftFromMap = ({ tiles, monsters }: AsciiMap): AsciiMap => ({
+  tiles: tiles.map((row) =>
+    row.map(({ explored, visible, monsterId, regionId, ...tile }) => ({ ...tile, explored: false, visible: false }))
+  ),
+  monsters: monsters.map(({ hp, ...monster }) => monster)
+});
+
+const removeMonstersWhere = (map: AsciiMap, test: (m: AsciiMap['monsters'][number]) => boolean): AsciiMap => ({
+  ...map,
+  monsters: map.monsters.filter((m) => !test(m))
+});
+
+/**
+ * Paint one tile. The start and boss tiles are unique, so painting either turns the old one back
+ * into room floor; the boss monster follows the boss tile. Solid tiles push out any monster.
+ */
+export const paintTile = (map: AsciiMap, x: number, y: number, type: TileType): AsciiMap => {
+  let tiles = map.tiles;
+  if (type === 'start' || type === 'boss') {
+    tiles = tiles.map((row) => row.map((tile) => (tile.type === type ? blankTile('room') : tile)));
+  }
+  tiles = updateTiles(tiles, x, y, () => blankTile(type));
+
+  let monsters = map.monsters;
+  if (isSolid(tiles[y][x]) || type === 'start') monsters = monsters.filter((m) => m.x !== x || m.y !== y);
+  if (type === 'boss') {
+    const boss = monsters.find((m) => bossArchetypeIds.has(m.archetypeId));
+    const archetypeId = boss?.archetypeId ?? [...bossArchetypeIds][0];
+    monsters = [...monsters.filter((m) => m !== boss && (m.x !== x || m.y !== y)), { archetypeId, x, y }];
+  }
+  return { tiles, monsters };
+};
+
+/** Place a monster, replacing any already on the tile. Only one boss-tier monster is kept. */
+export const placeMonster = (map: AsciiMap, x: number, y: number, archetypeId: string): AsciiMap => {
+  const tile = map.tiles[y][x];
+  if (isSolid(tile)) throw new Error('Monsters need a floor tile to stand on.');
+  if (tile.type === 'start') throw new Error('Keep the start tile clear for the hero.');
+  const isBoss = bossArchetypeIds.has(archetypeId);
+  const cleared = removeMonstersWhere(map, (m) => (m.x === x && m.y === y) || (isBoss && bossArchetypeIds.has(m.archetypeId)));
+  return { ...cleared, monsters: [...cleared.monsters, { archetypeId, x, y }] };
+};
+
+export const eraseMonster = (map: AsciiMap, x: number, y: number): AsciiMap =>
+  removeMonstersWhere(map, (m) => m.x === x && m.y === y);
+
+/** Region ids on either side of a tile, as `labelRegions` numbers the draft right now. */
+export const neighbourRegions = (tiles: Tile[][], x: number, y: number): number[] => {
+  const labeled = labelRegions(tiles);
+  const regions = new Set<number>();
+  [
+    { x: 1, y: 0 },
+    { x: -1, y: 0 },
+    { x: 0, y: 1 },
+    { x: 0, y: -1 }
+  ].forEach((d) => {
+    const regionId = labeled[y + d.y]?.[x + d.x]?.regionId;
+    if (regionId !== undefined) regions.add(regionId);
+  });
+  return [...regions];
+};
+
+/** Link a secret door to the two regions it joins. Throws unless it sits between two. */
+export const linkSecretDoor = (map: AsciiMap, x: number, y: number): AsciiMap => {
+  if (map.tiles[y][x].type !== 'secretDoor') throw new Error('Only secret doors can be linked.');
+  const regions = neighbourRegions(map.tiles, x, y);
+  if (regions.length < 2) throw new Error('That secret door does not separate two regions.');
+  const links: [number, number] = [regions[0], regions[1]];
+  return { ...map, tiles: updateTiles(map.tiles, x, y, (tile) => ({ ...tile, secretDoorLinks: links })) };
+};
+
+/** Apply `tool` at (x, y). Throws with a message for the editor's status line when it can't. */
+export const applyTool = (map: AsciiMap, tool: EditorTool, x: number, y: number): AsciiMap => {
+  if (tool.kind === 'tile') return paintTile(map, x, y, tool.tileType ?? 'room');
+  if (tool.kind === 'monster') return placeMonster(map, x, y, tool.archetypeId ?? archetypes[0].id);
+  if (tool.kind === 'eraseMonster') return eraseMonster(map, x, y);
+  return linkSecretDoor(map, x, y);
+};
+
+/**
+ * The draft as `DungeonCanvas` should show it: fully lit, hidden traps and secret doors drawn
+ * revealed, and a token wherever a monster stands.
+ */
+export const editorDisplayTiles = ({ tiles, monsters }: AsciiMap): Tile[][] => {
+  const display = tiles.map((row) =>
+    row.map((tile) => ({
+      ...tile,
+      explored: true,
+      visible: true,
+      monsterId: undefined,
+      revealed: tile.type === 'trap' || tile.type === 'secretDoor' ? true : tile.revealed
+    }))
+  );
+  monsters.forEach((m, i) => {
+    if (display[m.y]?.[m.x]) display[m.y][m.x].monsterId = `${m.archetypeId}-${i}`;
+  });
+  return display;
+};
@@ -0,0 +1,716 @@
+import { archetypes, encounterThemes, scaleArchetype, toRecord } from './archetypes';
+import {
+  carveSecretVaults,
+  generateDungeon,
+  isPassable,
+  keyName,
+  labelRegions,
+  placeHazards,
+  placeRuneStones,
+  placeSecretDoors,
+  placeTraps,
+  placeTreasures,
+  spawnMonsters,
+  updateTiles,
+  validateDungeon
+} from './dungeonGen';
+import { AsciiMap } from './asciiMap';
+import { biomeFor, biomeForFloor } from './biomes';
+import { generatorForFloor, VARIED_GENERATORS } from './generators';
+import { createRng, hashSeed, Rng } from './rng';
+import { CombatState, EquipSlot, GameState, HeroClassId, MonsterArchetype, MonsterInstance, PlayerState, RuneId, Tile } from './types';
+import { Point } from './pathfinding';
+import { computeVisibility } from './visibility';
+import { GameEvent, log, StepContext } from './stepContext';
+import { isFleeing, monsterTurn } from './monsterAI';
+import { bossDefinitionFor, bossTurn, thawTiles, tickFrozenFloor } from './boss';
+import { answerRiddle, leaveRiddle, openRiddle } from './riddles';
+import { equipItem, pickUpItem, rollLoot, rollVaultLoot, unequipItem, useItem } from './items';
+import { climbPit, disarmTrap, rollTrapKind, springTrap } from './traps';
+import { createHero, DEFAULT_HERO_CLASS, heroClassFor, tickAbilityCooldown, useAbility } from './heroClasses';
+import { BLOODTHIRST_HEAL, chooseLevelUp, gainXp, hasPerk, xpReward } from './progression';
+import { castSpell, tickFocus } from './runes';
+import { afflictPlayer, hasStatus, rollInfliction, statusesByKind, statusModifier, tickMonsterStatuses, tickPlayerStatuses } from './statuses';
+
+export type { GameEvent } from './stepContext';
+
+export const MAP_WIDTH = 40;
+export const MAP_HEIGHT = 28;
+/** `generatorId` of a floor loaded from a text map rather than generated. */
+export const IMPORTED_MAP = 'imported';
+export const VISION_RADIUS = 4;
+export const MAX_LOG = 30;
+export const SEARCH_DISTANCE = 10;
+export const SEARCH_CHANCE = 0.85;
+/** Chests in secret vaults hold this many times the usual gold. */
+export const VAULT_GOLD_MULTIPLIER = 2;
+
+/** One realm per floor, top to bottom; the run is won by clearing the last one. */
+export const REALMS = [
+  'Midgard',
+  'Jotunheim',
+  'Vanaheim',
+  'Alfheim',
+  'Svartalfheim',
+  'Nidavellir',
+  'Muspelheim',
+  'Niflheim',
+  'Helheim'
+];
+export const MAX_DEPTH = REALMS.length;
+
+export const realmName = (depth: number) => REALMS[Math.min(depth, MAX_DEPTH) - 1];
+
+export type GameAction =
+  | { type: 'move'; dx: number; dy: number }
+  | { type: 'search' }
+  | { type: 'attack' }
+  | { type: 'defend' }
+  | { type: 'shieldBash' }
+  | { type: 'flee' }
+  | { type: 'equip'; index: number }
+  | { type: 'unequip'; slot: EquipSlot }
+  | { type: 'use'; index: number }
+  | { type: 'answerRiddle'; answer: string }
+  | { type: 'leaveRiddle' }
+  | { type: 'closeDoors' }
+  | { type: 'disarm' }
+  | { type: 'chooseLevelUp'; choiceId: string }
+  | { type: 'useAbility' }
+  | { type: 'cast'; runes: RuneId[] };
+
+export interface StepResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+interface Floor {
+  tiles: Tile[][];
+  start: { x: number; y: number };
+  monstersById: Record<string, MonsterInstance>;
+  archetypesById: GameState['archetypesById'];
+  generatorId: string;
+  biomeId: string;
+}
+
+const buildFloor = (depth: number, rng: Rng, generatorSetting: string): Floor => {
+  const scaled = archetypes.map((archetype) => scaleArchetype(archetype, depth));
+  const generator = generatorForFloor(depth, generatorSetting, rng);
+  const biome = biomeForFloor(realmName(depth), rng);
+  const generated = generateDungeon(MAP_WIDTH, MAP_HEIGHT, rng, generator);
+  if (!generated.layout) {
+    throw new Error(`Could not generate floor ${depth} after ${generated.attempts} attempts: ${generated.problems.join(' ')}`);
+  }
+  const { tiles: baseTiles, start, boss } = generated.layout;
+
+  let tiles = carveSecretVaults(baseTiles, rng, (r) => rollVaultLoot(depth, r));
+  tiles = placeTraps(tiles, start, boss, rng, rollTrapKind);
+  tiles = placeTreasures(tiles, start, boss, rng, (r) => rollLoot(depth, r));
+  tiles = placeRuneStones(tiles, start, boss, rng);
+  tiles = placeHazards(tiles, start, boss, rng);
+  tiles = labelRegions(tiles);
+  tiles = placeSecretDoors(tiles, rng);
+  tiles = labelRegions(tiles);
+
+  const pool = scaled.filter((archetype) => archetype.tier === 'boss' || biome.monsterPool.includes(archetype.id));
+  const themes = encounterThemes.map((theme) => theme.archetypeIds);
+  const { monstersById, tiles: withMonsters } = spawnMonsters(tiles, start, boss, pool, rng, themes);
+  const labeled = labelRegions(withMonsters);
+  const visibility = computeVisibility(labeled, start, VISION_RADIUS);
+
+  return { tiles: visibility, start, monstersById, archetypesById: toRecord(scaled), generatorId: generator.id, biomeId: biome.id };
+};
+
+/** A fresh hero of `heroClass` standing on the start tile of `floor`. */
+const startRun = (seed: string, rng: Rng, floor: Floor, generatorSetting: string, heroClass: HeroClassId, log: string[]): GameState => ({
+  seed,
+  rngState: rng.getState(),
+  depth: 1,
+  generatorId: floor.generatorId,
+  generatorSetting,
+  biomeId: floor.biomeId,
+  width: floor.tiles[0]?.length ?? 0,
+  height: floor.tiles.length,
+  tiles: floor.tiles,
+  heroClass,
+  ...createHero(heroClassFor(heroClass), floor.start),
+  monstersById: floor.monstersById,
+  archetypesById: floor.archetypesById,
+  combat: { active: false, monsterId: null },
+  log,
+  keys: []
+});
+
+/** `generatorSetting` is a generator id or VARIED_GENERATORS; see `generatorForFloor`. */
+export const createGame = (seed: string, generatorSetting: string = VARIED_GENERATORS, heroClass: HeroClassId = DEFAULT_HERO_CLASS): GameState => {
+  const rng = createRng(hashSeed(seed));
+  const floor = buildFloor(1, rng, generatorSetting);
+  const intro = `You enter the halls beneath Yggdrasil, a ${heroClassFor(heroClass).name.toLowerCase()} in search of a saga...`;
+  return startRun(seed, rng, floor, generatorSetting, heroClass, [intro, biomeFor(floor.biomeId).arrival]);
+};
+
+/**
+ * Start a run on a hand-made first floor (see `asciiMap.ts`); deeper floors are generated from the
+ * seed as usual. Throws if the map has no start tile or names an unknown monster. Other problems
+ * `validateDungeon` finds are only logged, so deliberately broken maps can still be explored.
+ */
+export const createGameFromMap = (
+  seed: string,
+  map: AsciiMap,
+  generatorSetting: string = VARIED_GENERATORS,
+  heroClass: HeroClassId = DEFAULT_HERO_CLASS
+): GameState => {
+  const rng = createRng(hashSeed(seed));
+  const scaled = toRecord(archetypes.map((archetype) => scaleArchetype(archetype, 1)));
+  const startRow = map.tiles.findIndex((row) => row.some((tile) => tile.type === 'start'));
+  if (startRow < 0) throw new Error('Map has no start tile (S).');
+  const start = { x: map.tiles[startRow].findIndex((tile) => tile.type === 'start'), y: startRow };
+
+  let tiles = map.tiles;
+  const monstersById: Record<string, MonsterInstance> = {};
+  map.monsters.forEach((m, i) => {
+    const archetype = scaled[m.archetypeId];
+    if (!archetype) throw new Error(`Map names an unknown monster "${m.archetypeId}".`);
+    const id = archetype.tier === 'boss' ? `${archetype.id}-boss` : `${archetype.id}-${i}`;
+    monstersById[id] = { id, archetypeId: archetype.id, hp: Math.min(m.hp ?? archetype.maxHP, archetype.maxHP), pos: { x: m.x, y: m.y } };
+    tiles = updateTiles(tiles, m.x, m.y, (tile) => ({ ...tile, monsterId: id }));
+  });
+  tiles = computeVisibility(labelRegions(tiles), start, VISION_RADIUS);
+
+  const warnings = validateDungeon(tiles, { minRooms: 0 }).problems.map((problem) => `Map warning: ${problem}`);
+  const biome = biomeForFloor(realmName(1), rng);
+  const floor: Floor = { tiles, start, monstersById, archetypesById: scaled, generatorId: IMPORTED_MAP, biomeId: biome.id };
+  return startRun(seed, rng, floor, generatorSetting, heroClass, ['You enter a chamber someone has drawn for you...', ...warnings]);
+};
+
+/**
+ * Generate the next floor and carry the hero (stats, gold, inventory) down onto its start tile, focus
+ * restored. If the floor cannot be generated the hero stays where they are and the log says why.
+ */
+const descend = (state: GameState, ctx: StepContext): GameState => {
+  const depth = state.depth + 1;
+  let floor: Floor;
+  try {
+    floor = buildFloor(depth, ctx.rng, state.generatorSetting);
+  } catch (error) {
+    log(ctx, `The stairway crumbles before you can descend. ${(error as Error).message}`);
+    return state;
+  }
+  const heal = Math.round(state.player.maxHP * 0.25);
+  log(ctx, `You descend into ${realmName(depth)} (depth ${depth}). You catch your breath, recover ${heal} HP and clear your mind.`);
+  log(ctx, biomeFor(floor.biomeId).arrival);
+  return {
+    ...state,
+    depth,
+    generatorId: floor.generatorId,
+    biomeId: floor.biomeId,
+    tiles: floor.tiles,
+    monstersById: floor.monstersById,
+    archetypesById: floor.archetypesById,
+    combat: { active: false, monsterId: null },
+    riddle: null,
+    keys: [],
+    player: {
+      ...state.player,
+      x: floor.start.x,
+      y: floor.start.y,
+      hp: Math.min(state.player.maxHP, state.player.hp + heal),
+      focus: state.player.maxFocus,
+      focusCharge: undefined
+    }
+  };
+};
+
+const move = (state: GameState, ctx: StepContext, dx: number, dy: number): GameState => {
+  if (state.combat.active || state.player.hp <= 0 || state.victory) return state;
+  if (state.player.trappedTurns) return climbPit(state, ctx);
+  // Walking away from a rune stone abandons its riddle for now.
+  const prev = state.riddle ? leaveRiddle(state, ctx) : state;
+  const newX = prev.player.x + dx;
+  const newY = prev.player.y + dy;
+  if (newX < 0 || newY < 0 || newX >= prev.width || newY >= prev.height) {
+    log(ctx, 'You cannot go that way.');
+    return prev;
+  }
+  const target = prev.tiles[newY][newX];
+  if (target.type === 'wall') {
+    log(ctx, 'A solid wall blocks the path.');
+    return prev;
+  }
+  if (target.type === 'secretDoor' && !target.revealed) {
+    log(ctx, 'You sense a dead end here.');
+    return prev;
+  }
+
+  if (target.monsterId) {
+    const monster = prev.monstersById[target.monsterId];
+    if (monster) {
+      log(ctx, `A ${prev.archetypesById[monster.archetypeId].name} engages you!`);
+      return {
+        ...prev,
+        monstersById: { ...prev.monstersById, [monster.id]: { ...monster, awake: true } },
+        combat: { active: true, monsterId: monster.id }
+      };
+    }
+  }
+
+  let nextTiles = prev.tiles;
+  let keys = prev.keys;
+  if (target.type === 'door' && target.lockId) {
+    if (!keys.includes(target.lockId)) {
+      log(ctx, `The door is locked. You need the ${keyName(target.lockId)}.`);
+      return prev;
+    }
+    log(ctx, `You unlock the door with the ${keyName(target.lockId)}.`);
+    keys = keys.filter((k) => k !== target.lockId);
+    nextTiles = updateTiles(nextTiles, newX, newY, (tile) => ({ ...tile, lockId: null, open: true }));
+  } else if (target.type === 'door' && !target.open) {
+    log(ctx, 'You push the door open.');
+    nextTiles = updateTiles(nextTiles, newX, newY, (tile) => ({ ...tile, open: true }));
+  }
+
+  if (target.keyFor) {
+    log(ctx, `You pick up the ${keyName(target.keyFor)}.`);
+    keys = [...keys, target.keyFor];
+    nextTiles = updateTiles(nextTiles, newX, newY, (tile) => ({ ...tile, keyFor: null }));
+  }
+
+  let nextState: GameState = {
+    ...prev,
+    keys,
+    player: { ...prev.player, x: newX, y: newY }
+  };
+
+  if (target.type === 'trap' && !target.triggered) {
+    nextState = springTrap({ ...nextState, tiles: nextTiles }, { x: newX, y: newY }, ctx);
+    nextTiles = nextState.tiles;
+  }
+
+  if (target.type === 'hazard') {
+    const hazard = biomeFor(prev.biomeId).hazard;
+    const damage = ctx.rng.int(hazard.damage[0], hazard.damage[1]);
+    log(ctx, `${hazard.message} You take ${damage} damage.`);
+    nextState.player = { ...nextState.player, hp: Math.max(0, nextState.player.hp - damage) };
+    ctx.events.push({ type: 'hitFlash', target: 'player' });
+  }
+
+  if (target.type === 'treasure') {
+    const hoard = target.vault ? VAULT_GOLD_MULTIPLIER : 1;
+    const gold = Math.round(ctx.rng.int(10, 25) * (1 + 0.25 * (prev.depth - 1)) * hoard);
+    log(ctx, target.vault ? `You plunder a hidden hoard: ${gold} gold.` : `You find ${gold} gold.`);
+    nextState.player = { ...nextState.player, gold: nextState.player.gold + gold };
+    if (target.lootId) nextState = pickUpItem(nextState, target.lootId, ctx);
+    nextTiles = updateTiles(nextTiles, newX, newY, (tile) => ({ ...tile, type: 'corridor', lootId: null }));
+    ctx.events.push({ type: 'particles', x: newX, y: newY, kind: 'treasure' });
+  }
+
+  const withRegions = labelRegions(nextTiles);
+  const withVisibility = computeVisibility(withRegions, { x: newX, y: newY }, VISION_RADIUS);
+  nextState = { ...nextState, tiles: withVisibility };
+
+  if (nextState.player.hp <= 0) {
+    log(ctx, 'You succumb to your wounds.');
+    return nextState;
+  }
+
+  if (target.type === 'stairs') {
+    return descend(nextState, ctx);
+  }
+
+  if (target.type === 'runeStone' && !target.triggered) {
+    return openRiddle(nextState, { x: newX, y: newY }, ctx);
+  }
+
+  return nextState;
+};
+
+const search = (prev: GameState, ctx: StepContext): GameState => {
+  if (prev.player.hp <= 0) return prev;
+  const found: string[] = [];
+  let tiles = prev.tiles;
+  const playerRegion = prev.tiles[prev.player.y][prev.player.x].regionId;
+  // Hidden secret doors are solid, so they belong to no region; judge them by the tiles beside them.
+  const bordersPlayerRegion = (x: number, y: number) =>
+    [tiles[y - 1]?.[x], tiles[y + 1]?.[x], tiles[y]?.[x - 1], tiles[y]?.[x + 1]].some((t) => t?.regionId === playerRegion);
+
+  for (let y = 0; y < prev.height; y++) {
+    for (let x = 0; x < prev.width; x++) {
+      const tile = tiles[y][x];
+      if (playerRegion === undefined) continue;
+      if (tile.type === 'secretDoor' ? !bordersPlayerRegion(x, y) : tile.regionId !== playerRegion) continue;
+      const dist = Math.hypot(prev.player.x - x, prev.player.y - y);
+      if (dist > SEARCH_DISTANCE) continue;
+      if ((tile.type === 'trap' || tile.type === 'secretDoor') && !tile.revealed) {
+        if (ctx.rng.chance(SEARCH_CHANCE)) {
+          tiles = updateTiles(tiles, x, y, (t) => ({ ...t, revealed: true }));
+          found.push(tile.type === 'trap' ? 'trap' : 'secret door');
+        }
+      }
+    }
+  }
+
+  const needsRelabel = found.some((f) => f === 'secret door');
+  const nextTiles = needsRelabel ? labelRegions(tiles) : tiles;
+  const chance = Math.round(SEARCH_CHANCE * 100);
+  const tally = (noun: string) => {
+    const count = found.filter((f) => f === noun).length;
+    return count === 0 ? [] : [count === 1 ? `a ${noun}` : `${count} ${noun}s`];
+  };
+  log(
+    ctx,
+    found.length === 0
+      ? `You search carefully (${chance}% focus) but find nothing in this area.`
+      : `You discover ${[...tally('trap'), ...tally('secret door')].join(' and ')} nearby!`
+  );
+
+  return { ...prev, tiles: nextTiles };
+};
+
+/** Close every open, unoccupied door next to the player. */
+const closeDoors = (prev: GameState, ctx: StepContext): GameState => {
+  if (prev.player.hp <= 0) return prev;
+  let tiles = prev.tiles;
+  let closed = 0;
+  [
+    { x: 1, y: 0 },
+    { x: -1, y: 0 },
+    { x: 0, y: 1 },
+    { x: 0, y: -1 }
+  ].forEach((d) => {
+    const x = prev.player.x + d.x;
+    const y = prev.player.y + d.y;
+    const tile = tiles[y]?.[x];
+    if (tile?.type !== 'door' || !tile.open || tile.monsterId) return;
+    tiles = updateTiles(tiles, x, y, (t) => ({ ...t, open: false }));
+    closed++;
+  });
+  if (!closed) {
+    log(ctx, 'There is no open door beside you.');
+    return prev;
+  }
+  log(ctx, closed > 1 ? 'You pull the doors shut.' : 'You pull the door shut.');
+  return { ...prev, tiles: computeVisibility(tiles, prev.player, VISION_RADIUS) };
+};
+
+/** DEF the hero adds for the monster's reply while defending. */
+export const DEFEND_BONUS = 3;
+/** Rounds of a fight between two shield bashes, counting the one that bashed. */
+export const SHIELD_BASH_COOLDOWN = 3;
+/** Bosses are heavy enough to shrug off some bashes. */
+const BOSS_STUN_CHANCE = 0.5;
+/** Tiles the hero dashes away after breaking off a fight. */
+const FLEE_STEPS = 2;
+
+const FLEE_DIRS: Point[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 }
+];
+
+/** The monster the hero is fighting, with its archetype, or null outside of combat. */
+const engaged = (state: GameState): { monster: MonsterInstance; archetype: MonsterArchetype } | null => {
+  if (!state.combat.active || !state.combat.monsterId) return null;
+  const monster = state.monstersById[state.combat.monsterId];
+  const archetype = monster ? state.archetypesById[monster.archetypeId] : undefined;
+  return monster && archetype ? { monster, archetype } : null;
+};
+
+const monsterAttack = (state: GameState, ctx: StepContext): GameState => {
+  const foe = engaged(state);
+  if (!foe) return state;
+  const { monster, archetype } = foe;
+  if (state.combat.stunned) {
+    log(ctx, `The ${archetype.name} staggers, still reeling from your shield bash.`);
+    return { ...state, combat: { ...state.combat, stunned: undefined } };
+  }
+  if (hasStatus(monster.statuses, 'frozen')) {
+    log(ctx, `The ${archetype.name} is frozen stiff and cannot strike.`);
+    return { ...state };
+  }
+  if (bossDefinitionFor(archetype.id)) return bossTurn(state, ctx);
+  if (isFleeing(state, monster, archetype)) {
+    log(ctx, `The ${archetype.name} breaks off and flees!`);
+    return { ...state, combat: { active: false, monsterId: null } };
+  }
+  const rollValue = ctx.rng.int(1, 6);
+  const damage = Math.max(1, archetype.atk + statusModifier(monster.statuses, 'atk') + rollValue - state.player.def);
+  const hp = state.player.hp - damage;
+  const nextPlayer = { ...state.player, hp };
+  log(ctx, `The ${archetype.name} strikes you for ${damage} damage.`);
+  ctx.events.push({ type: 'hitFlash', target: 'player' });
+  if (damage >= 8) {
+    ctx.events.push({ type: 'screenShake', duration: 240, intensity: 6 });
+  }
+  if (hp <= 0) {
+    log(ctx, 'You fall to the dungeon floor...');
+    return { ...state, player: nextPlayer };
+  }
+  if (!rollInfliction(archetype.onHit, ctx)) return { ...state, player: nextPlayer };
+  log(ctx, `The ${archetype.name}'s blow leaves you ${statusesByKind[archetype.onHit!.kind].name.toLowerCase()}!`);
+  return afflictPlayer({ ...state, player: nextPlayer }, archetype.onHit!, ctx);
+};
+
+/** Count down the hero's shield bash at the end of a round the fight survived. */
+const endRound = (state: GameState): GameState => {
+  if (!state.combat.active || !state.combat.bashCooldown) return state;
+  return { ...state, combat: { ...state.combat, bashCooldown: state.combat.bashCooldown - 1 || undefined } };
+};
+
+/**
+ * One round of a fight: the hero's action, then the monster's reply unless the fight is already
+ * over. `guard` is extra DEF the hero holds for that reply only. An action that returns its input
+ * unchanged spends no turn and draws no reply.
+ */
+const combatRound = (prev: GameState, ctx: StepContext, heroAction: (state: GameState) => GameState, guard = 0): GameState => {
+  if (!engaged(prev) || prev.player.hp <= 0) return prev;
+  const acted = heroAction(prev);
+  if (acted === prev || !acted.combat.active || acted.player.hp <= 0) return acted;
+  if (!guard) return endRound(monsterAttack(acted, ctx));
+  const replied = monsterAttack({ ...acted, player: { ...acted.player, def: acted.player.def + guard } }, ctx);
+  return endRound({ ...replied, player: { ...replied.player, def: replied.player.def - guard } });
+};
+
+/** Remove a slain monster and settle the kill: gold and XP, the boss stairway, victory, and the end of its fight. */
+const slayMonster = (prev: GameState, ctx: StepContext, monster: MonsterInstance): GameState => {
+  const archetype = prev.archetypesById[monster.archetypeId];
+  const xp = xpReward(archetype);
+  log(ctx, `The ${archetype.name} falls! +${archetype.gold} gold, +${xp} XP`);
+  let player = { ...prev.player, gold: prev.player.gold + archetype.gold };
+  if (hasPerk(player, 'bloodthirst') && player.hp > 0 && player.hp < player.maxHP) {
+    player = { ...player, hp: Math.min(player.maxHP, player.hp + BLOODTHIRST_HEAL) };
+  }
+  let tiles = updateTiles(prev.tiles, monster.pos.x, monster.pos.y, (tile) => ({ ...tile, monsterId: null }));
+  let victory = prev.victory;
+  if (archetype.tier === 'boss') {
+    tiles = thawTiles(tiles, Infinity);
+    if (prev.depth < MAX_DEPTH) {
+      log(ctx, `A stairway opens where the ${archetype.name} stood, leading down to ${realmName(prev.depth + 1)}.`);
+      tiles = updateTiles(tiles, monster.pos.x, monster.pos.y, (tile) => ({ ...tile, type: 'stairs' }));
+    } else {
+      log(ctx, 'The last guardian of the nine realms is slain. Your saga will be sung in Valhalla!');
+      victory = true;
+    }
+  }
+  const monsters = { ...prev.monstersById };
+  delete monsters[monster.id];
+  const combat: CombatState = prev.combat.monsterId === monster.id ? { active: false, monsterId: null } : prev.combat;
+  ctx.events.push({ type: 'particles', x: monster.pos.x, y: monster.pos.y, kind: 'monster' });
+  return gainXp({ ...prev, tiles, monstersById: monsters, combat, player, victory }, xp, ctx);
+};
+
+/**
+ * Deal `damage` to `monster` (by default the one the hero is fighting), slaying it if that finishes
+ * it off. A monster hurt from afar wakes up.
+ */
+const woundMonster = (prev: GameState, ctx: StepContext, damage: number, message: string, monster = engaged(prev)!.monster): GameState => {
+  const newHP = monster.hp - damage;
+  log(ctx, message);
+  if (prev.combat.monsterId === monster.id) ctx.events.push({ type: 'hitFlash', target: 'monster' });
+  if (newHP <= 0) return slayMonster(prev, ctx, monster);
+  return {
+    ...prev,
+    monstersById: { ...prev.monstersById, [monster.id]: { ...monster, hp: newHP, awake: true } }
+  };
+};
+
+/** The monster's DEF against the hero's blows, statuses included. */
+const guardOf = (monster: MonsterInstance, archetype: MonsterArchetype) => archetype.def + statusModifier(monster.statuses, 'def');
+
+const attack = (prev: GameState, ctx: StepContext): GameState =>
+  combatRound(prev, ctx, (state) => {
+    const { monster, archetype } = engaged(state)!;
+    const damage = Math.max(1, state.player.atk + ctx.rng.int(1, 6) - guardOf(monster, archetype));
+    return woundMonster(state, ctx, damage, `You strike the ${archetype.name} for ${damage} damage.`);
+  });
+
+/** Skip the strike and brace: the monster's reply this round meets `DEFEND_BONUS` extra DEF. */
+const defend = (prev: GameState, ctx: StepContext): GameState =>
+  combatRound(
+    prev,
+    ctx,
+    (state) => {
+      log(ctx, `You raise your guard against the ${engaged(state)!.archetype.name} (+${DEFEND_BONUS} DEF this turn).`);
+      return { ...state };
+    },
+    DEFEND_BONUS
+  );
+
+/** A weaker blow that stuns the monster out of its next attack. Bosses resist half the time. */
+const shieldBash = (prev: GameState, ctx: StepContext): GameState =>
+  combatRound(prev, ctx, (state) => {
+    const { monster, archetype } = engaged(state)!;
+    if (state.combat.bashCooldown) {
+      log(ctx, `You need ${state.combat.bashCooldown} more turn${state.combat.bashCooldown === 1 ? '' : 's'} to ready another shield bash.`);
+      return state;
+    }
+    const damage = Math.max(1, Math.floor(state.player.atk / 2) + ctx.rng.int(1, 6) - guardOf(monster, archetype));
+    const bashed = woundMonster(state, ctx, damage, `You slam your shield into the ${archetype.name} for ${damage} damage.`);
+    if (!bashed.combat.active) return bashed;
+    const stunned = archetype.tier !== 'boss' || ctx.rng.chance(BOSS_STUN_CHANCE);
+    log(ctx, stunned ? `The ${archetype.name} reels!` : `The ${archetype.name} barely flinches.`);
+    const bashCooldown = SHIELD_BASH_COOLDOWN - (hasPerk(state.player, 'shieldMaster') ? 1 : 0);
+    return { ...bashed, combat: { ...bashed.combat, stunned: stunned || undefined, bashCooldown } };
+  });
+
+/** Drink or use a consumable mid-fight; it costs the round, so the monster still gets its swing. */
+const useInCombat = (prev: GameState, ctx: StepContext, index: number): GameState =>
+  combatRound(prev, ctx, (state) => useItem(state, index, ctx));
+
+/** Cast a rune spell; in a fight it takes the round like any other action. */
+const cast = (prev: GameState, ctx: StepContext, runes: RuneId[]): GameState => {
+  const spell = (state: GameState) => castSpell(state, runes, ctx, (s, monster, damage, message) => woundMonster(s, ctx, damage, message, monster));
+  return prev.combat.active ? combatRound(prev, ctx, spell) : spell(prev);
+};
+
+/** Odds of breaking away from `archetype`: a sturdy hero slips free more easily, elites are hard to shake. */
+export const fleeChance = (player: PlayerState, archetype: MonsterArchetype) => {
+  const odds = 0.5 + 0.05 * (player.def - archetype.atk) - (archetype.tier === 'elite' ? 0.15 : 0) + (hasPerk(player, 'fleetFoot') ? 0.2 : 0);
+  return Math.min(0.85, Math.max(0.15, odds));
+};
+
+/** Ground a fleeing hero will dash across: no closed doors, known traps, hazards or anything that stops a run. */
+const canDashTo = (state: GameState, p: Point) => {
+  const tile = state.tiles[p.y]?.[p.x];
+  if (!tile || !isPassable(tile) || tile.monsterId) return false;
+  if (tile.type === 'door') return !!tile.open;
+  if (tile.type === 'trap') return !tile.revealed && !tile.triggered;
+  return tile.type === 'room' || tile.type === 'corridor' || tile.type === 'start' || tile.type === 'secretDoor';
+};
+
+/** Run up to `FLEE_STEPS` tiles directly away from `threat`. Blundering onto a hidden trap ends the dash. */
+const dashAway = (state: GameState, ctx: StepContext, threat: Point): GameState => {
+  let next = state;
+  for (let i = 0; i < FLEE_STEPS; i++) {
+    const from = next.player;
+    const current = Math.abs(from.x - threat.x) + Math.abs(from.y - threat.y);
+    const to = FLEE_DIRS.map((d) => ({ x: from.x + d.x, y: from.y + d.y }))
+      .filter((p) => canDashTo(next, p) && Math.abs(p.x - threat.x) + Math.abs(p.y - threat.y) > current)[0];
+    if (!to) break;
+    next = { ...next, player: { ...next.player, x: to.x, y: to.y } };
+    if (next.tiles[to.y][to.x].type === 'trap') {
+      next = springTrap(next, to, ctx);
+      break;
+    }
+  }
+  return { ...next, tiles: computeVisibility(labelRegions(next.tiles), next.player, VISION_RADIUS) };
+};
+
+/**
+ * Turn and run. The monster gets a free swing first, then the escape roll decides whether the
+ * hero breaks away (dashing a couple of tiles off) or stays locked in the fight. Bosses can't be fled.
+ */
+const flee = (prev: GameState, ctx: StepContext): GameState => {
+  const foe = engaged(prev);
+  if (!foe || prev.player.hp <= 0) return prev;
+  const { monster, archetype } = foe;
+  if (archetype.tier === 'boss') {
+    log(ctx, `There is no escaping the ${archetype.name}!`);
+    return prev;
+  }
+  log(ctx, `You turn to flee from the ${archetype.name}!`);
+  const swung = monsterAttack(prev, ctx);
+  if (swung.player.hp <= 0 || !swung.combat.active) return swung;
+
+  const chance = fleeChance(swung.player, archetype);
+  if (!ctx.rng.chance(chance)) {
+    log(ctx, `The ${archetype.name} cuts off your escape (${Math.round(chance * 100)}% chance).`);
+    return endRound(swung);
+  }
+  log(ctx, `You break away from the ${archetype.name}!`);
+  return dashAway({ ...swung, combat: { active: false, monsterId: null } }, ctx, monster.pos);
+};
+
+/**
+ * Pure reducer over `GameState`: resumes the seeded RNG from the state, applies one player action,
+ * and returns the next state together with the events it produced. No React or DOM access.
+ */
+export const step = (state: GameState, action: GameAction): StepResult => {
+  // A level-up waiting in the dialog must be spent before the hero does anything else.
+  if (state.player.pendingLevelUps && action.type !== 'chooseLevelUp') return { state, events: [] };
+  const ctx: StepContext = { rng: createRng(state.rngState), events: [] };
+
+  let next = state;
+  switch (action.type) {
+    case 'move':
+      next = move(state, ctx, action.dx, action.dy);
+      break;
+    case 'search':
+      next = search(state, ctx);
+      break;
+    case 'attack':
+      next = attack(state, ctx);
+      break;
+    case 'defend':
+      next = defend(state, ctx);
+      break;
+    case 'shieldBash':
+      next = shieldBash(state, ctx);
+      break;
+    case 'flee':
+      next = flee(state, ctx);
+      break;
+    case 'equip':
+      next = state.player.hp > 0 ? equipItem(state, action.index, ctx) : state;
+      break;
+    case 'unequip':
+      next = state.player.hp > 0 ? unequipItem(state, action.slot, ctx) : state;
+      break;
+    case 'use':
+      if (state.player.hp <= 0) break;
+      next = state.combat.active ? useInCombat(state, ctx, action.index) : useItem(state, action.index, ctx);
+      break;
+    case 'answerRiddle':
+      next = state.player.hp > 0 ? answerRiddle(state, action.answer, ctx) : state;
+      break;
+    case 'leaveRiddle':
+      next = leaveRiddle(state, ctx);
+      break;
+    case 'closeDoors':
+      next = closeDoors(state, ctx);
+      break;
+    case 'disarm':
+      next = disarmTrap(state, ctx);
+      break;
+    case 'useAbility':
+      next = state.combat.active ? combatRound(state, ctx, (s) => useAbility(s, ctx)) : useAbility(state, ctx);
+      break;
+    case 'chooseLevelUp':
+      next = chooseLevelUp(state, action.choiceId, ctx);
+      break;
+    case 'cast':
+      next = cast(state, ctx, action.runes);
+      break;
+  }
+
+  // Monsters act after every action that spent the player's turn, unless it took them to a new
+  // floor. Picking a level-up reward happens between turns.
+  if (next !== state && next.depth === state.depth && action.type !== 'chooseLevelUp') {
+    next = monsterTurn(next, ctx);
+    // A frozen hero gives them a second move.
+    if (hasStatus(next.player.statuses, 'frozen')) next = monsterTurn(next, ctx);
+    next = tickFrozenFloor(next, ctx);
+    next = tickPlayerStatuses(next, ctx);
+    next = tickMonsterStatuses(next, ctx, (s, monster) => slayMonster(s, ctx, monster));
+    next = tickAbilityCooldown(next);
+    next = tickFocus(next);
+  }
+
+  const messages = ctx.events.flatMap((event) => (event.type === 'log' ? [event.message] : []));
+  if (next === state && messages.length === 0) return { state, events: ctx.events };
+
+  return {
+    state: {
+      ...next,
+      rngState: ctx.rng.getState(),
+      log: messages.length ? [...next.log, ...messages].slice(-MAX_LOG) : next.log
+    },
+    events: ctx.events
+  };
+};
+
+/** Append a message to the log outside of a `step`, e.g. for UI-only notices. */
+export const withLog = (state: GameState, message: string): GameState => ({
+  ...state,
+  log: [...state.log, message].slice(-MAX_LOG)
+});
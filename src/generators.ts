@@ -0,0 +1,216 @@
+import {
+  carveCorridor,
+  carveRoom,
+  createWallGrid,
+  DungeonGenerator,
+  furnishBossRoom,
+  markStartAndBoss,
+  MIN_ROOMS,
+  placeDoors,
+  PREFAB_CHANCE,
+  reachableFrom,
+  Rect,
+  roomCenter,
+  ROOM_PREFABS,
+  roomsAndCorridors
+} from './dungeonGen';
+import { pickPrefab, stampPrefab } from './prefabs';
+import { Rng } from './rng';
+import { Tile } from './types';
+
+/** BSP leaves smaller than this in either direction are not split again. */
+const MIN_LEAF = 5;
+const MAX_BSP_ROOM = 7;
+
+/** Share of the grid that cave and tunnel floors should cover. */
+const CAVE_FLOOR_RATIO = 0.35;
+const TUNNEL_FLOOR_RATIO = 0.4;
+const CAVE_WALL_CHANCE = 0.45;
+const CAVE_SMOOTHING = 4;
+const CAVE_RESEEDS = 8;
+
+const DIRS = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 }
+];
+
+/**
+ * Recursively split `area`, put a room (plain or prefab) in every leaf and join sibling subtrees
+ * with a corridor. Prefab rooms are collected in `prefabRooms` so corridors stop at their edge.
+ */
+const partition = (tiles: Tile[][], area: Rect, rng: Rng, prefabRooms: Rect[]): Rect[] => {
+  const canSplitX = area.w >= MIN_LEAF * 2;
+  const canSplitY = area.h >= MIN_LEAF * 2;
+  if (!canSplitX && !canSplitY) {
+    const stamp = rng.chance(PREFAB_CHANCE) ? pickPrefab(ROOM_PREFABS, area.w - 2, area.h - 2, rng) : null;
+    const w = stamp ? stamp.rows[0].length : rng.int(3, Math.min(MAX_BSP_ROOM, area.w - 2));
+    const h = stamp ? stamp.rows.length : rng.int(3, Math.min(MAX_BSP_ROOM, area.h - 2));
+    const room = { x: rng.int(area.x + 1, area.x + area.w - w - 1), y: rng.int(area.y + 1, area.y + area.h - h - 1), w, h };
+    if (stamp) {
+      stampPrefab(tiles, room, stamp);
+      prefabRooms.push(room);
+    } else {
+      carveRoom(tiles, room);
+    }
+    return [room];
+  }
+
+  const splitX = canSplitX && (!canSplitY || area.w > area.h || (area.w === area.h && rng.chance(0.5)));
+  const size = splitX ? area.w : area.h;
+  const cut = rng.int(MIN_LEAF, size - MIN_LEAF);
+  const [a, b]: Rect[] = splitX
+    ? [
+        { ...area, w: cut },
+        { ...area, x: area.x + cut, w: area.w - cut }
+      ]
+    : [
+        { ...area, h: cut },
+        { ...area, y: area.y + cut, h: area.h - cut }
+      ];
+  const left = partition(tiles, a, rng, prefabRooms);
+  const right = partition(tiles, b, rng, prefabRooms);
+  carveCorridor(tiles, roomCenter(rng.pick(left)), roomCenter(rng.pick(right)), prefabRooms);
+  return [...left, ...right];
+};
+
+/** Binary space partitioning: evenly spread rooms, one per leaf, wired up along the split tree. */
+export const bspRooms: DungeonGenerator = {
+  id: 'bsp',
+  name: 'Partitioned halls',
+  minRooms: MIN_ROOMS,
+  generate: (width, height, rng) => {
+    const tiles = createWallGrid(width, height);
+    const prefabRooms: Rect[] = [];
+    const rooms = partition(tiles, { x: 0, y: 0, w: width, h: height }, rng, prefabRooms).sort((a, b) => a.x + a.y - (b.x + b.y));
+    const { start, boss } = markStartAndBoss(tiles, rooms);
+    furnishBossRoom(tiles, rooms, prefabRooms, boss, rng);
+    placeDoors(tiles, rooms, start, boss, rng);
+    return { tiles, start, boss };
+  }
+};
+
+/** Keep only the largest connected patch of floor; every other pocket is filled back in. */
+const keepLargestRegion = (tiles: Tile[][]) => {
+  const seen = new Set<string>();
+  let largest: { x: number; y: number }[] = [];
+  tiles.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile.type === 'wall' || seen.has(`${x},${y}`)) return;
+      const region = reachableFrom(tiles, { x, y });
+      region.forEach((p) => seen.add(`${p.x},${p.y}`));
+      if (region.length > largest.length) largest = region;
+    })
+  );
+  const keep = new Set(largest.map((p) => `${p.x},${p.y}`));
+  tiles.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile.type !== 'wall' && !keep.has(`${x},${y}`)) row[x] = { ...tile, type: 'wall', regionType: undefined };
+    })
+  );
+  return largest;
+};
+
+/** Start on a random floor tile; the boss waits on the floor tile farthest from it by walking distance. */
+const markOpenStartAndBoss = (tiles: Tile[][], floor: { x: number; y: number }[], rng: Rng) => {
+  const start = rng.pick(floor);
+  const reached = reachableFrom(tiles, start);
+  const boss = reached[reached.length - 1];
+  tiles[start.y][start.x] = { ...tiles[start.y][start.x], type: 'start', regionType: 'room' };
+  tiles[boss.y][boss.x] = { ...tiles[boss.y][boss.x], type: 'boss', regionType: 'room' };
+  return { start, boss };
+};
+
+const wallsAround = (walls: boolean[][], x: number, y: number) => {
+  let count = 0;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      if (walls[y + dy]?.[x + dx] ?? true) count++;
+    }
+  }
+  return count;
+};
+
+/** Cellular automata: random noise smoothed into winding ice caverns, one open "room". */
+export const iceCaves: DungeonGenerator = {
+  id: 'caves',
+  name: 'Ice caves',
+  minRooms: 1,
+  generate: (width, height, rng) => {
+    const isEdge = (x: number, y: number) => x === 0 || y === 0 || x === width - 1 || y === height - 1;
+    let tiles = createWallGrid(width, height);
+    let floor: { x: number; y: number }[] = [];
+    for (let seed = 0; seed < CAVE_RESEEDS && floor.length < width * height * CAVE_FLOOR_RATIO; seed++) {
+      let walls = Array.from({ length: height }, (_, y) => Array.from({ length: width }, (_, x) => isEdge(x, y) || rng.chance(CAVE_WALL_CHANCE)));
+      for (let i = 0; i < CAVE_SMOOTHING; i++) {
+        walls = walls.map((row, y) => row.map((_, x) => isEdge(x, y) || wallsAround(walls, x, y) >= 5));
+      }
+      tiles = createWallGrid(width, height);
+      walls.forEach((row, y) =>
+        row.forEach((wall, x) => {
+          if (!wall) tiles[y][x] = { ...tiles[y][x], type: 'room', regionType: 'room' };
+        })
+      );
+      floor = keepLargestRegion(tiles);
+    }
+    if (floor.length < 2) return roomsAndCorridors.generate(width, height, rng);
+    return { tiles, ...markOpenStartAndBoss(tiles, floor, rng) };
+  }
+};
+
+/**
+ * Drunkard's walk: a random walker digs narrow tunnels until enough rock is cleared. Spots open on
+ * all four sides become small caverns (rooms); the rest stay tunnels.
+ */
+export const drunkardsWalk: DungeonGenerator = {
+  id: 'tunnels',
+  name: "Drunkard's tunnels",
+  minRooms: 0,
+  generate: (width, height, rng) => {
+    const tiles = createWallGrid(width, height);
+    const target = Math.floor((width - 2) * (height - 2) * TUNNEL_FLOOR_RATIO);
+    const maxSteps = width * height * 20;
+    let pos = { x: Math.floor(width / 2), y: Math.floor(height / 2) };
+    let dug = 0;
+    for (let steps = 0; dug < target && steps < maxSteps; steps++) {
+      if (tiles[pos.y][pos.x].type === 'wall') {
+        tiles[pos.y][pos.x] = { ...tiles[pos.y][pos.x], type: 'corridor', regionType: 'corridor' };
+        dug++;
+      }
+      const d = rng.pick(DIRS);
+      pos = { x: Math.min(width - 2, Math.max(1, pos.x + d.x)), y: Math.min(height - 2, Math.max(1, pos.y + d.y)) };
+    }
+
+    const open = tiles.map((row, y) => row.map((tile, x) => tile.type !== 'wall' && DIRS.every((d) => tiles[y + d.y][x + d.x].type !== 'wall')));
+    open.forEach((row, y) =>
+      row.forEach((isOpen, x) => {
+        if (isOpen) tiles[y][x] = { ...tiles[y][x], type: 'room', regionType: 'room' };
+      })
+    );
+
+    const floor: { x: number; y: number }[] = [];
+    tiles.forEach((row, y) =>
+      row.forEach((tile, x) => {
+        if (tile.type !== 'wall') floor.push({ x, y });
+      })
+    );
+    return { tiles, ...markOpenStartAndBoss(tiles, floor, rng) };
+  }
+};
+
+export const generators: DungeonGenerator[] = [roomsAndCorridors, bspRooms, iceCaves, drunkardsWalk];
+
+export const generatorsById: Record<string, DungeonGenerator> = Object.fromEntries(generators.map((g) => [g.id, g]));
+
+/** Generator setting meaning "pick a different algorithm for each floor". */
+export const VARIED_GENERATORS = 'varied';
+
+/**
+ * Choose the layout algorithm for a floor. A fixed setting always uses that generator; the varied
+ * setting keeps the first floor as classic halls and rolls one for every floor below it.
+ */
+export const generatorForFloor = (depth: number, setting: string, rng: Rng): DungeonGenerator => {
+  if (setting !== VARIED_GENERATORS) return generatorsById[setting] ?? roomsAndCorridors;
+  return depth === 1 ? roomsAndCorridors : rng.pick(generators);
+};
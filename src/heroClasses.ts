@@ -0,0 +1,149 @@
+import { updateTiles } from './dungeonGen';
+import { applyBonuses, equipSlot, itemsById } from './items';
+import { afflictPlayer } from './statuses';
+import { log, StepContext } from './stepContext';
+import { EquipSlot, GameState, HeroClassId, PlayerState, RuneId } from './types';
+
+export interface ClassAbility {
+  name: string;
+  description: string;
+  /** Turns before it can be used again, counting the turn it was used. */
+  cooldown: number;
+}
+
+export interface HeroClass {
+  id: HeroClassId;
+  name: string;
+  epithet: string;
+  description: string;
+  /** Base stats before starting gear. */
+  stats: { maxHP: number; atk: number; def: number; maxFocus: number };
+  /** Item ids worn from the start; their bonuses go on top of `stats`. */
+  gear: string[];
+  /** Item ids carried in the pack. */
+  pack: string[];
+  /** Runes known from the start (see `runes.ts`). */
+  runes: RuneId[];
+  ability: ClassAbility;
+}
+
+const RAGE_TURNS = 5;
+const WAR_SONG_TURNS = 8;
+/** Foresight reveals hidden traps within this many tiles, through walls. */
+const FORESIGHT_RADIUS = 9;
+
+export const heroClasses: HeroClass[] = [
+  {
+    id: 'berserker',
+    name: 'Berserker',
+    epithet: 'Bear-shirt of Odin',
+    description: 'Hits hardest and bleeds freely. Little armour, a big axe and a temper to match.',
+    stats: { maxHP: 46, atk: 7, def: 2, maxFocus: 4 },
+    gear: ['beardedAxe'],
+    pack: ['healingDraught'],
+    runes: [],
+    ability: { name: 'Rage', description: `Go berserk for ${RAGE_TURNS} turns: +3 ATK, -2 DEF.`, cooldown: 12 }
+  },
+  {
+    id: 'volva',
+    name: 'Völva',
+    epithet: 'Seeress of the staff',
+    description: 'Frail in a brawl, but sees what others step on and knows the runes of fire and sun. Carries tears of Freyja and a frost flask.',
+    stats: { maxHP: 34, atk: 5, def: 3, maxFocus: 14 },
+    gear: ['seax', 'valknut'],
+    pack: ['freyjaTears', 'frostFlask'],
+    runes: ['thurisaz', 'kenaz', 'sowilo'],
+    ability: { name: 'Foresight', description: `Reveal every hidden trap within ${FORESIGHT_RADIUS} tiles.`, cooldown: 10 }
+  },
+  {
+    id: 'skald',
+    name: 'Skald',
+    epithet: 'Keeper of sagas',
+    description: "A steady all-rounder who fights in leather, sings the old songs for courage and knows Odin's rune.",
+    stats: { maxHP: 40, atk: 6, def: 3, maxFocus: 8 },
+    gear: ['leatherJerkin'],
+    pack: ['hornOfMead'],
+    runes: ['ansuz'],
+    ability: { name: 'War-song', description: `Blessed for ${WAR_SONG_TURNS} turns: +2 DEF, slow healing, cures poison and bleeding.`, cooldown: 16 }
+  }
+];
+
+export const heroClassesById = Object.fromEntries(heroClasses.map((c) => [c.id, c])) as Record<HeroClassId, HeroClass>;
+
+/** Class of runs started without a choice (hand-made maps, saves from before classes). */
+export const DEFAULT_HERO_CLASS: HeroClassId = 'skald';
+
+export const heroClassFor = (id: HeroClassId | undefined): HeroClass => heroClassesById[id] ?? heroClassesById[DEFAULT_HERO_CLASS];
+
+/** A fresh hero of `heroClass` at `pos`, already wearing their gear. */
+export const createHero = (
+  heroClass: HeroClass,
+  pos: { x: number; y: number }
+): { player: PlayerState; equipment: Partial<Record<EquipSlot, string>>; inventory: string[] } => {
+  let player: PlayerState = {
+    ...pos,
+    ...heroClass.stats,
+    hp: heroClass.stats.maxHP,
+    focus: heroClass.stats.maxFocus,
+    runes: [...heroClass.runes],
+    gold: 0,
+    level: 1,
+    xp: 0
+  };
+  const equipment: Partial<Record<EquipSlot, string>> = {};
+  heroClass.gear.forEach((id) => {
+    const item = itemsById[id];
+    equipment[equipSlot(item)] = id;
+    player = applyBonuses(player, item.bonuses, 1);
+  });
+  return { player, equipment, inventory: [...heroClass.pack] };
+};
+
+const revealTraps = (state: GameState, ctx: StepContext): GameState => {
+  let tiles = state.tiles;
+  let found = 0;
+  tiles.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile.type !== 'trap' || tile.revealed || Math.hypot(state.player.x - x, state.player.y - y) > FORESIGHT_RADIUS) return;
+      tiles = updateTiles(tiles, x, y, (t) => ({ ...t, revealed: true }));
+      found++;
+    })
+  );
+  log(
+    ctx,
+    found
+      ? `The Norns' threads show you ${found === 1 ? 'a hidden trap' : `${found} hidden traps`}.`
+      : 'You cast your sight ahead and see no hidden traps.'
+  );
+  return { ...state, tiles };
+};
+
+const abilityEffects: Record<HeroClassId, (state: GameState, ctx: StepContext) => GameState> = {
+  berserker: (state, ctx) => {
+    log(ctx, 'You howl and the red rage takes you!');
+    return afflictPlayer(state, { kind: 'berserk', turns: RAGE_TURNS }, ctx);
+  },
+  volva: revealTraps,
+  skald: (state, ctx) => {
+    log(ctx, 'You sing of heroes past and feel the gods listening.');
+    return afflictPlayer(state, { kind: 'blessed', turns: WAR_SONG_TURNS }, ctx);
+  }
+};
+
+/** Use the hero's class ability if it has recharged. */
+export const useAbility = (state: GameState, ctx: StepContext): GameState => {
+  const heroClass = heroClassFor(state.heroClass);
+  if (state.player.hp <= 0) return state;
+  if (state.player.abilityCooldown) {
+    log(ctx, `${heroClass.ability.name} is ready again in ${state.player.abilityCooldown} turn${state.player.abilityCooldown === 1 ? '' : 's'}.`);
+    return state;
+  }
+  const next = abilityEffects[heroClass.id](state, ctx);
+  return { ...next, player: { ...next.player, abilityCooldown: heroClass.ability.cooldown } };
+};
+
+/** Recharge the class ability by one turn. */
+export const tickAbilityCooldown = (state: GameState): GameState =>
+  state.player.abilityCooldown
+    ? { ...state, player: { ...state.player, abilityCooldown: state.player.abilityCooldown - 1 || undefined } }
+    : state;
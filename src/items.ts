@@ -0,0 +1,259 @@
+import { Rng } from './rng';
+import { learnRune, runes } from './runes';
+import { afflictMonster, afflictPlayer, statusesByKind } from './statuses';
+import { log, StepContext } from './stepContext';
+import { EquipSlot, GameState, ItemDefinition, ItemKind, PlayerState, StatBonuses } from './types';
+
+export const items: ItemDefinition[] = [
+  { id: 'seax', name: 'Rusty Seax', kind: 'weapon', description: 'A short single-edged knife.', bonuses: { atk: 1 }, weight: 4 },
+  { id: 'beardedAxe', name: 'Bearded Axe', kind: 'weapon', description: 'Hooks shields and skulls alike.', bonuses: { atk: 2 }, weight: 3 },
+  {
+    id: 'ulfberht',
+    name: 'Ulfberht Sword',
+    kind: 'weapon',
+    description: 'Crucible steel, signed by its smith.',
+    bonuses: { atk: 3 },
+    minDepth: 3,
+    weight: 2
+  },
+  {
+    id: 'daneAxe',
+    name: 'Dane Axe',
+    kind: 'weapon',
+    description: 'A long-hafted axe that trades guard for reach.',
+    bonuses: { atk: 5, def: -1 },
+    minDepth: 5,
+    weight: 1
+  },
+  { id: 'leatherJerkin', name: 'Leather Jerkin', kind: 'armour', description: 'Boiled leather, stiff and warm.', bonuses: { def: 1 }, weight: 4 },
+  {
+    id: 'byrnie',
+    name: 'Chainmail Byrnie',
+    kind: 'armour',
+    description: 'Riveted rings to the knee.',
+    bonuses: { def: 2 },
+    minDepth: 2,
+    weight: 2
+  },
+  {
+    id: 'lamellar',
+    name: 'Lamellar Coat',
+    kind: 'armour',
+    description: 'Overlapping iron plates laced tight.',
+    bonuses: { def: 3, maxHP: 5 },
+    minDepth: 5,
+    weight: 1
+  },
+  { id: 'healingDraught', name: 'Healing Draught', kind: 'potion', description: 'Restores 15 HP.', heal: 15, weight: 6 },
+  {
+    id: 'idunnApple',
+    name: "Idunn's Apple",
+    kind: 'potion',
+    description: 'A golden apple of youth: +5 max HP for good.',
+    heal: 5,
+    bonuses: { maxHP: 5 },
+    minDepth: 2,
+    weight: 1
+  },
+  { id: 'hornOfMead', name: 'Horn of Mead', kind: 'mead', description: 'Restores 25 HP.', heal: 25, weight: 3 },
+  {
+    id: 'meadOfPoetry',
+    name: 'Mead of Poetry',
+    kind: 'mead',
+    description: 'A sip of the mead Odin stole from the giants. Restores 8 focus.',
+    focus: 8,
+    weight: 2
+  },
+  {
+    id: 'berserkerBrew',
+    name: 'Berserker Brew',
+    kind: 'mead',
+    description: 'Fly agaric steeped in ale. Sends you berserk: +3 ATK, -2 DEF.',
+    status: { kind: 'berserk', turns: 6 },
+    weight: 2
+  },
+  {
+    id: 'freyjaTears',
+    name: "Freyja's Tears",
+    kind: 'potion',
+    description: 'Golden tears that bless you (+2 DEF, slow healing) and wash out poison and bleeding.',
+    status: { kind: 'blessed', turns: 8 },
+    minDepth: 2,
+    weight: 2
+  },
+  {
+    id: 'frostFlask',
+    name: 'Frost Flask',
+    kind: 'potion',
+    description: 'Thrown in a fight, it freezes your foe solid for a few turns.',
+    status: { kind: 'frozen', turns: 2, target: 'foe' },
+    weight: 2
+  },
+  {
+    id: 'adderVenom',
+    name: 'Adder Venom',
+    kind: 'potion',
+    description: 'Thrown in a fight, it poisons your foe.',
+    status: { kind: 'poisoned', turns: 6, target: 'foe' },
+    minDepth: 2,
+    weight: 2
+  },
+  {
+    id: 'mjolnirPendant',
+    name: 'Mjolnir Pendant',
+    kind: 'amulet',
+    description: "Thor's hammer in miniature.",
+    bonuses: { atk: 1, def: 1 },
+    weight: 2
+  },
+  {
+    id: 'valknut',
+    name: 'Valknut Charm',
+    kind: 'amulet',
+    description: "Odin's knot of the slain.",
+    bonuses: { maxHP: 8 },
+    minDepth: 2,
+    weight: 2
+  },
+  {
+    id: 'brisingamen',
+    name: 'Brisingamen',
+    kind: 'amulet',
+    description: "Freyja's necklace, bright as fire.",
+    bonuses: { atk: 2, def: 2, maxHP: 10 },
+    minDepth: 6,
+    weight: 1
+  },
+  // Rune stones are learned on pickup rather than carried (see `runes.ts`).
+  ...runes.map(
+    (rune): ItemDefinition => ({
+      id: `${rune.id}Rune`,
+      name: `${rune.name} Rune`,
+      kind: 'rune',
+      description: `A stone carved with ${rune.glyph}, ${rune.meaning}.`,
+      rune: rune.id,
+      weight: 1
+    })
+  )
+];
+
+export const itemsById: Record<string, ItemDefinition> = Object.fromEntries(items.map((item) => [item.id, item]));
+
+const slotForKind: Partial<Record<ItemKind, EquipSlot>> = { weapon: 'weapon', armour: 'armour', amulet: 'amulet' };
+
+export const equipSlot = (item: ItemDefinition) => slotForKind[item.kind];
+
+export const isConsumable = (item: ItemDefinition) => item.kind === 'potion' || item.kind === 'mead';
+
+export const describeBonuses = (bonuses: StatBonuses = {}) =>
+  (['atk', 'def', 'maxHP'] as const)
+    .filter((stat) => bonuses[stat])
+    .map((stat) => `${bonuses[stat]! > 0 ? '+' : ''}${bonuses[stat]} ${stat === 'maxHP' ? 'max HP' : stat.toUpperCase()}`)
+    .join(', ');
+
+/** Chance that a treasure tile holds an item on top of its gold. */
+const LOOT_CHANCE = 0.6;
+
+/** Vault chests draw from items this many floors deeper than the current one. */
+const VAULT_DEPTH_BONUS = 2;
+
+/** Weighted pick among items allowed at this depth (and passing `allow`). */
+const pickLoot = (depth: number, rng: Rng, allow: (item: ItemDefinition) => boolean = () => true): string | null => {
+  const eligible = items.filter((item) => (item.minDepth ?? 1) <= depth && allow(item));
+  const total = eligible.reduce((sum, item) => sum + item.weight, 0);
+  let pick = rng.next() * total;
+  for (const item of eligible) {
+    pick -= item.weight;
+    if (pick < 0) return item.id;
+  }
+  return eligible[eligible.length - 1]?.id ?? null;
+};
+
+/** Weighted pick among items allowed at this depth, or null for a gold-only chest. */
+export const rollLoot = (depth: number, rng: Rng): string | null => (rng.chance(LOOT_CHANCE) ? pickLoot(depth, rng) : null);
+
+/** Secret vault chests always hold gear (never a consumable), drawn as if from deeper down. */
+export const rollVaultLoot = (depth: number, rng: Rng): string | null =>
+  pickLoot(depth + VAULT_DEPTH_BONUS, rng, (item) => !isConsumable(item));
+
+/**
+ * Add (sign 1) or remove (sign -1) stat bonuses. A max HP bonus grants that much HP and takes it
+ * back on removal (never below 1), so swapping gear on and off cannot heal.
+ */
+export const applyBonuses = (player: PlayerState, bonuses: StatBonuses = {}, sign: 1 | -1): PlayerState => {
+  const maxHP = Math.max(1, player.maxHP + sign * (bonuses.maxHP ?? 0));
+  return {
+    ...player,
+    atk: player.atk + sign * (bonuses.atk ?? 0),
+    def: player.def + sign * (bonuses.def ?? 0),
+    maxHP,
+    hp: Math.max(1, Math.min(maxHP, player.hp + sign * (bonuses.maxHP ?? 0)))
+  };
+};
+
+export const pickUpItem = (state: GameState, itemId: string, ctx: StepContext): GameState => {
+  const item = itemsById[itemId];
+  if (!item) return state;
+  if (item.rune) return learnRune(state, item.rune, ctx);
+  log(ctx, `You pick up ${item.name}.`);
+  return { ...state, inventory: [...state.inventory, itemId] };
+};
+
+export const unequipItem = (state: GameState, slot: EquipSlot, ctx: StepContext): GameState => {
+  const item = itemsById[state.equipment[slot] ?? ''];
+  if (!item) return state;
+  const { [slot]: _removed, ...equipment } = state.equipment;
+  log(ctx, `You unequip ${item.name}.`);
+  return {
+    ...state,
+    equipment,
+    inventory: [...state.inventory, item.id],
+    player: applyBonuses(state.player, item.bonuses, -1)
+  };
+};
+
+/** Equip the item at `index` in the inventory, swapping out whatever occupied its slot. */
+export const equipItem = (state: GameState, index: number, ctx: StepContext): GameState => {
+  const item = itemsById[state.inventory[index] ?? ''];
+  const slot = item ? equipSlot(item) : undefined;
+  if (!item || !slot) return state;
+
+  const inventory = state.inventory.filter((_, i) => i !== index);
+  let next: GameState = { ...state, inventory };
+  if (next.equipment[slot]) next = unequipItem(next, slot, ctx);
+  log(ctx, `You equip ${item.name} (${describeBonuses(item.bonuses)}).`);
+  return {
+    ...next,
+    equipment: { ...next.equipment, [slot]: item.id },
+    player: applyBonuses(next.player, item.bonuses, 1)
+  };
+};
+
+/** Consume the potion or mead at `index`: heal, restore focus, apply any permanent bonuses, then its status on the hero or the foe. */
+export const useItem = (state: GameState, index: number, ctx: StepContext): GameState => {
+  const item = itemsById[state.inventory[index] ?? ''];
+  if (!item || !isConsumable(item)) return state;
+  const foe = state.combat.active && state.combat.monsterId ? state.monstersById[state.combat.monsterId] : undefined;
+  const thrown = item.status?.target === 'foe';
+  if (thrown && !foe) {
+    log(ctx, `Save the ${item.name} for a fight.`);
+    return state;
+  }
+
+  let player = applyBonuses(state.player, item.bonuses, 1);
+  const healed = Math.min(item.heal ?? 0, player.maxHP - player.hp);
+  const focused = Math.min(item.focus ?? 0, player.maxFocus - player.focus);
+  player = { ...player, hp: player.hp + healed, focus: player.focus + focused };
+  const effects = [healed > 0 ? `recover ${healed} HP` : '', focused > 0 ? `regain ${focused} focus` : '', describeBonuses(item.bonuses)]
+    .filter(Boolean)
+    .join(' and ');
+  const statusName = item.status ? statusesByKind[item.status.kind].name.toLowerCase() : '';
+  if (thrown) log(ctx, `You hurl the ${item.name}. The ${state.archetypesById[foe.archetypeId].name} is ${statusName}!`);
+  else log(ctx, item.kind === 'mead' ? `You drain the ${item.name}${effects ? ` and ${effects}` : ''}. Skål!` : `You use ${item.name}${effects ? ` and ${effects}` : ''}.`);
+
+  const next: GameState = { ...state, player, inventory: state.inventory.filter((_, i) => i !== index) };
+  if (thrown) return afflictMonster(next, foe.id, item.status);
+  if (!item.status) return next;
+  log(ctx, `You are ${statusName}.`);
+  return afflictPlayer(next, item.status, ctx);
+};
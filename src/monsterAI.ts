@@ -0,0 +1,172 @@
+import { isPassable, updateTiles } from './dungeonGen';
+import { findPath, Point } from './pathfinding';
+import { hasStatus, statusModifier } from './statuses';
+import { log, StepContext } from './stepContext';
+import { GameState, MonsterArchetype, MonsterInstance, Tile } from './types';
+
+const DIRS: Point[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 }
+];
+
+/** Monsters give up the chase beyond this many steps and simply hold position. */
+const HUNT_RANGE = 12;
+/** Cowardly monsters break and run below this fraction of their max HP. */
+const FLEE_THRESHOLD = 0.35;
+
+const isAdjacent = (a: Point, b: Point) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y) === 1;
+
+/** Monsters walk wherever the player could, but never onto stairs or another creature. */
+const canEnter = (state: GameState, tiles: Tile[][], p: Point) => {
+  const tile = tiles[p.y]?.[p.x];
+  if (!tile || !isPassable(tile) || tile.type === 'stairs' || tile.monsterId) return false;
+  return !(p.x === state.player.x && p.y === state.player.y);
+};
+
+const isCowed = (monster: MonsterInstance, archetype: MonsterArchetype) =>
+  archetype.behavior === 'coward' && monster.hp <= archetype.maxHP * FLEE_THRESHOLD;
+
+/** First step of the shortest route toward `goal` within `HUNT_RANGE`, or null if out of reach. */
+const firstStepToward = (state: GameState, tiles: Tile[][], from: Point, goal: Point): Point | null => {
+  const path = findPath(tiles, from, goal, {
+    canEnter: (_tile, p) => canEnter(state, tiles, p),
+    maxCost: HUNT_RANGE
+  });
+  return path?.[0] ?? null;
+};
+
+const stepAwayFrom = (state: GameState, tiles: Tile[][], from: Point, threat: Point): Point | null => {
+  const current = Math.abs(from.x - threat.x) + Math.abs(from.y - threat.y);
+  let best: Point | null = null;
+  let bestDist = current;
+  DIRS.forEach((d) => {
+    const next = { x: from.x + d.x, y: from.y + d.y };
+    if (!canEnter(state, tiles, next)) return;
+    const dist = Math.abs(next.x - threat.x) + Math.abs(next.y - threat.y);
+    if (dist > bestDist) {
+      best = next;
+      bestDist = dist;
+    }
+  });
+  return best;
+};
+
+/** A coward below its flee threshold with somewhere to run. Cornered, it fights on. */
+export const isFleeing = (state: GameState, monster: MonsterInstance, archetype: MonsterArchetype) =>
+  isCowed(monster, archetype) && !!stepAwayFrom(state, state.tiles, monster.pos, state.player);
+
+const patrolStep = (
+  state: GameState,
+  tiles: Tile[][],
+  monster: MonsterInstance,
+  ctx: StepContext
+): { to: Point | null; dir: Point } => {
+  const heading = monster.patrolDir ?? ctx.rng.pick(DIRS);
+  const ahead = { x: monster.pos.x + heading.x, y: monster.pos.y + heading.y };
+  if (canEnter(state, tiles, ahead)) return { to: ahead, dir: heading };
+  const options = DIRS.filter((d) => canEnter(state, tiles, { x: monster.pos.x + d.x, y: monster.pos.y + d.y }));
+  if (!options.length) return { to: null, dir: heading };
+  const dir = ctx.rng.pick(options);
+  return { to: { x: monster.pos.x + dir.x, y: monster.pos.y + dir.y }, dir };
+};
+
+/** Move a monster and keep `Tile.monsterId` on both the old and new tile in sync. */
+export const relocateMonster = (state: GameState, id: string, to: Point): GameState => {
+  const monster = state.monstersById[id];
+  let tiles = updateTiles(state.tiles, monster.pos.x, monster.pos.y, (tile) => ({ ...tile, monsterId: null }));
+  // Monsters shoulder closed doors open as they pass.
+  tiles = updateTiles(tiles, to.x, to.y, (tile) => ({ ...tile, monsterId: id, open: tile.type === 'door' ? true : tile.open }));
+  return { ...state, tiles, monstersById: { ...state.monstersById, [id]: { ...monster, pos: to } } };
+};
+
+/**
+ * Run one turn for a single monster. The engaged combatant is skipped here; it already acted
+ * through the combat flow.
+ */
+const actMonster = (state: GameState, id: string, ctx: StepContext): GameState => {
+  const monster = state.monstersById[id];
+  const archetype = monster ? state.archetypesById[monster.archetypeId] : undefined;
+  if (!monster || !archetype || state.combat.monsterId === id || state.player.hp <= 0) return state;
+  if (hasStatus(monster.statuses, 'frozen')) return state;
+
+  const player = { x: state.player.x, y: state.player.y };
+  const behavior = archetype.behavior ?? 'hunter';
+  let next = state;
+  let current = monster;
+
+  if (!current.awake && state.tiles[monster.pos.y][monster.pos.x].visible) {
+    current = { ...current, awake: true };
+    next = { ...next, monstersById: { ...next.monstersById, [id]: current } };
+  }
+
+  if (!current.awake) {
+    if (behavior !== 'patrol') return next;
+    const { to, dir } = patrolStep(next, next.tiles, current, ctx);
+    next = { ...next, monstersById: { ...next.monstersById, [id]: { ...current, patrolDir: dir } } };
+    return to ? relocateMonster(next, id, to) : next;
+  }
+
+  const escape = isCowed(current, archetype) ? stepAwayFrom(next, next.tiles, current.pos, player) : null;
+  if (escape) return relocateMonster(next, id, escape);
+
+  if (isAdjacent(current.pos, player)) {
+    if (!next.combat.active) {
+      log(ctx, `The ${archetype.name} closes in and attacks!`);
+      return { ...next, combat: { active: true, monsterId: id } };
+    }
+    // A boss's thralls don't wait their turn: they strike from the flank while their master fights.
+    if (current.summonedBy && next.combat.monsterId === current.summonedBy) {
+      const damage = Math.max(1, archetype.atk + statusModifier(current.statuses, 'atk') + ctx.rng.int(1, 3) - next.player.def);
+      const hp = next.player.hp - damage;
+      log(ctx, `The ${archetype.name} thrall claws at you from the side for ${damage} damage.`);
+      ctx.events.push({ type: 'hitFlash', target: 'player' });
+      if (hp <= 0) log(ctx, 'You fall to the dungeon floor...');
+      return { ...next, player: { ...next.player, hp } };
+    }
+    return next;
+  }
+
+  if (behavior === 'guard') return next;
+
+  const to = firstStepToward(next, next.tiles, current.pos, player);
+  return to && !(to.x === player.x && to.y === player.y) ? relocateMonster(next, id, to) : next;
+};
+
+/**
+ * Every monster but the one currently fighting the player takes a turn. Ids are sorted so the
+ * order, and therefore the RNG sequence, is stable for a given seed.
+ */
+export const monsterTurn = (state: GameState, ctx: StepContext): GameState => {
+  if (state.player.hp <= 0 || state.victory) return state;
+  return Object.keys(state.monstersById)
+    .sort()
+    .reduce((acc, id) => actMonster(acc, id, ctx), state);
+};
+
+/**
+ * Conjure a fresh, already-awake monster on a free tile next to `near`. Returns the state
+ * unchanged when every neighbouring tile is blocked.
+ */
+export const summonMonster = (
+  state: GameState,
+  archetypeId: string,
+  near: Point,
+  ctx: StepContext
+): { state: GameState; id: string | null } => {
+  const archetype = state.archetypesById[archetypeId];
+  const spots = DIRS.map((d) => ({ x: near.x + d.x, y: near.y + d.y })).filter((p) => canEnter(state, state.tiles, p));
+  if (!archetype || !spots.length) return { state, id: null };
+  const pos = ctx.rng.pick(spots);
+  const id = `${archetype.id}-summoned-${state.depth}-${ctx.rng.int(0, 999999)}`;
+  const monster: MonsterInstance = { id, archetypeId: archetype.id, hp: archetype.maxHP, pos, awake: true };
+  return {
+    state: {
+      ...state,
+      tiles: updateTiles(state.tiles, pos.x, pos.y, (tile) => ({ ...tile, monsterId: id })),
+      monstersById: { ...state.monstersById, [id]: monster }
+    },
+    id
+  };
+};
@@ -0,0 +1,76 @@
+import { isPassable } from './dungeonGen';
+import { Tile } from './types';
+
+export type Point = { x: number; y: number };
+
+export interface PathOptions {
+  /**
+   * Whether a tile may be stepped on. Defaults to `isPassable`, i.e. anything but walls and
+   * unrevealed secret doors. The goal only has to be passable, so paths can end on a creature.
+   */
+  canEnter?: (tile: Tile, p: Point) => boolean;
+  /** Extra cost for stepping onto a tile, on top of the base cost of 1. */
+  extraCost?: (tile: Tile, p: Point) => number;
+  /** Abandon the search once the cheapest open node costs more than this. */
+  maxCost?: number;
+}
+
+const DIRS: Point[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 }
+];
+
+const manhattan = (a: Point, b: Point) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+
+/**
+ * A* over the 4-connected tile grid. Returns the steps from `from` (exclusive) to `to`
+ * (inclusive), an empty array when already there, or null when no route exists.
+ */
+export const findPath = (tiles: Tile[][], from: Point, to: Point, options: PathOptions = {}): Point[] | null => {
+  const rows = tiles.length;
+  const cols = tiles[0]?.length ?? 0;
+  if (to.x < 0 || to.y < 0 || to.x >= cols || to.y >= rows || !isPassable(tiles[to.y][to.x])) return null;
+  if (from.x === to.x && from.y === to.y) return [];
+
+  const canEnter = options.canEnter ?? ((tile: Tile) => isPassable(tile));
+  const maxCost = options.maxCost ?? Infinity;
+  const key = (p: Point) => p.y * cols + p.x;
+
+  const cost = new Map<number, number>([[key(from), 0]]);
+  const cameFrom = new Map<number, Point>();
+  // The grids are small, so a sorted array is plenty; ties prefer the most recently pushed node.
+  const open: { p: Point; f: number }[] = [{ p: from, f: manhattan(from, to) }];
+
+  while (open.length) {
+    open.sort((a, b) => b.f - a.f);
+    const { p } = open.pop()!;
+    if (p.x === to.x && p.y === to.y) {
+      const path: Point[] = [];
+      let node: Point | undefined = p;
+      while (node && !(node.x === from.x && node.y === from.y)) {
+        path.unshift(node);
+        node = cameFrom.get(key(node));
+      }
+      return path;
+    }
+    const g = cost.get(key(p))!;
+    if (g > maxCost) continue;
+
+    for (const d of DIRS) {
+      const next = { x: p.x + d.x, y: p.y + d.y };
+      if (next.x < 0 || next.y < 0 || next.x >= cols || next.y >= rows) continue;
+      const tile = tiles[next.y][next.x];
+      const isGoal = next.x === to.x && next.y === to.y;
+      if (!isGoal && !canEnter(tile, next)) continue;
+      const nextCost = g + 1 + (options.extraCost?.(tile, next) ?? 0);
+      if (nextCost >= (cost.get(key(next)) ?? Infinity)) continue;
+      cost.set(key(next), nextCost);
+      cameFrom.set(key(next), p);
+      open.push({ p: next, f: nextCost + manhattan(next, to) });
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,177 @@
+import { Rng } from './rng';
+import { Tile } from './types';
+
+/**
+ * Hand-authored room templates. Each block starts with a `[kind] Name` header, may list extra
+ * glyphs as `g: cell` legend lines, then draws the room row by row. Blank lines separate blocks.
+ *
+ * Two rules keep stamped rooms connected whatever way they are turned: the outer ring must be
+ * walkable (corridors stop at a template's edge rather than digging through it), and so must the
+ * centre cell, which is where corridors and the start/boss markers aim.
+ */
+const PREFAB_SOURCE = `
+[shrine] Shrine of the Allfather
+.....
+.#.#.
+..R..
+.#.#.
+.....
+
+[shrine] Well of Mimir
+.......
+..#.#..
+.#...#.
+...R...
+.#...#.
+..#.#..
+.......
+
+[hall] Pillared Hall
+.......
+.o.o.o.
+.......
+.o.o.o.
+.......
+o: wall
+
+[hall] Mead Hall
+.......
+.o...o.
+..$.$..
+.o...o.
+.......
+o: wall
+
+[vault] Hoard of Fafnir
+.......
+.#####.
+.#$.$#.
+.#.$.#.
+.#^.^#.
+.##.##.
+.......
+
+[vault] Dwarven Strongroom
+......
+.####.
+.#$$#.
+.#^.#.
+.##.#.
+......
+
+[arena] Frozen Arena
+.......
+.#...#.
+.......
+...B...
+.......
+.#...#.
+.......
+
+[arena] Ring of Jotuns
+.....
+.#.#.
+..B..
+.#.#.
+.....
+`;
+
+export type PrefabKind = 'shrine' | 'hall' | 'vault' | 'arena';
+
+/** What a glyph turns into when stamped. */
+export type PrefabCell = 'floor' | 'wall' | 'trap' | 'treasure' | 'runeStone' | 'boss';
+
+export interface PrefabTemplate {
+  kind: PrefabKind;
+  name: string;
+  rows: string[];
+  legend: Record<string, PrefabCell>;
+}
+
+/** Glyphs every template understands; a block's own legend lines add to or override these. */
+const DEFAULT_LEGEND: Record<string, PrefabCell> = {
+  '.': 'floor',
+  '#': 'wall',
+  '^': 'trap',
+  $: 'treasure',
+  R: 'runeStone',
+  B: 'boss'
+};
+
+const CELLS: PrefabCell[] = ['floor', 'wall', 'trap', 'treasure', 'runeStone', 'boss'];
+
+/** Parse template blocks in the format described above `PREFAB_SOURCE`. */
+export const parsePrefabs = (source: string): PrefabTemplate[] =>
+  source
+    .trim()
+    .split(/\n\s*\n/)
+    .map((block) => {
+      const lines = block.split('\n').map((line) => line.trimEnd());
+      const header = lines[0].match(/^\[(\w+)\]\s*(.+)$/);
+      if (!header) throw new Error(`Prefab block is missing its [kind] Name header: "${lines[0]}"`);
+      const legend = { ...DEFAULT_LEGEND };
+      const rows: string[] = [];
+      lines.slice(1).forEach((line) => {
+        const entry = line.match(/^(\S):\s*(\w+)$/);
+        if (entry && CELLS.includes(entry[2] as PrefabCell)) legend[entry[1]] = entry[2] as PrefabCell;
+        else rows.push(line);
+      });
+      if (!rows.length || rows.some((row) => row.length !== rows[0].length)) {
+        throw new Error(`Prefab "${header[2]}" must be a non-empty rectangle.`);
+      }
+      return { kind: header[1] as PrefabKind, name: header[2], rows, legend };
+    });
+
+export const prefabs: PrefabTemplate[] = parsePrefabs(PREFAB_SOURCE);
+
+/** A template turned to one of its eight orientations, ready to stamp. */
+export interface PrefabStamp {
+  template: PrefabTemplate;
+  rows: string[];
+}
+
+const rotate = (rows: string[]) => Array.from({ length: rows[0].length }, (_, x) => rows.map((row) => row[x]).reverse().join(''));
+
+/** Rotate a quarter turn `turns` times, then optionally mirror left to right. */
+export const orientRows = (rows: string[], turns: number, mirror: boolean) => {
+  let result = rows;
+  for (let i = 0; i < turns % 4; i++) result = rotate(result);
+  return mirror ? result.map((row) => row.split('').reverse().join('')) : result;
+};
+
+/** Pick a random template of one of `kinds` in a random orientation that fits within `maxW` x `maxH`. */
+export const pickPrefab = (kinds: PrefabKind[], maxW: number, maxH: number, rng: Rng): PrefabStamp | null => {
+  const options: PrefabStamp[] = [];
+  prefabs
+    .filter((template) => kinds.includes(template.kind))
+    .forEach((template) => {
+      const orientation = orientRows(template.rows, rng.int(0, 3), rng.chance(0.5));
+      if (orientation[0].length <= maxW && orientation.length <= maxH) options.push({ template, rows: orientation });
+    });
+  return options.length ? rng.pick(options) : null;
+};
+
+/**
+ * Stamp a template into `rect`, centred so the two centre cells line up, with any spare space
+ * left as plain room floor. Returns where its boss marker landed, if it has one.
+ */
+export const stampPrefab = (tiles: Tile[][], rect: { x: number; y: number; w: number; h: number }, stamp: PrefabStamp) => {
+  const offsetX = rect.x + Math.floor(rect.w / 2) - Math.floor(stamp.rows[0].length / 2);
+  const offsetY = rect.y + Math.floor(rect.h / 2) - Math.floor(stamp.rows.length / 2);
+  let boss: { x: number; y: number } | null = null;
+
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      const glyph = stamp.rows[y - offsetY]?.[x - offsetX];
+      const cell = glyph === undefined ? 'floor' : stamp.template.legend[glyph] ?? 'floor';
+      const base: Tile = { ...tiles[y][x], type: 'room', regionType: 'room' };
+      if (cell === 'wall') tiles[y][x] = { ...base, type: 'wall', regionType: undefined };
+      else if (cell === 'trap') tiles[y][x] = { ...base, type: 'trap', revealed: false, triggered: false };
+      else if (cell === 'treasure') tiles[y][x] = { ...base, type: 'treasure' };
+      else if (cell === 'runeStone') tiles[y][x] = { ...base, type: 'runeStone', triggered: false };
+      else tiles[y][x] = base;
+      if (cell === 'boss') boss = { x, y };
+    }
+  }
+  return { boss };
+};
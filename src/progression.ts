@@ -0,0 +1,85 @@
+import { applyBonuses, describeBonuses } from './items';
+import { log, StepContext } from './stepContext';
+import { GameState, MonsterArchetype, PerkId, PlayerState, StatBonuses, Tier } from './types';
+
+/** Tougher tiers are worth this many times their archetype's base XP. */
+export const TIER_XP: Record<Tier, number> = { minion: 1, elite: 2, boss: 5 };
+
+/** XP for the step from level 1 to 2; later steps grow with `level ** XP_CURVE`. */
+const XP_BASE = 20;
+const XP_CURVE = 1.5;
+
+export interface Perk {
+  id: PerkId;
+  name: string;
+  description: string;
+}
+
+export const perks: Perk[] = [
+  { id: 'trapSense', name: 'Trap Sense', description: '+20% chance to disarm traps.' },
+  { id: 'fleetFoot', name: 'Fleet Foot', description: '+20% chance to flee a fight.' },
+  { id: 'shieldMaster', name: 'Shield Master', description: 'Shield bash is ready again a round sooner.' },
+  { id: 'bloodthirst', name: 'Bloodthirst', description: 'Regain 3 HP whenever a foe falls.' }
+];
+
+export const perksById = Object.fromEntries(perks.map((perk) => [perk.id, perk])) as Record<PerkId, Perk>;
+
+/** HP a Bloodthirsty hero regains per kill. */
+export const BLOODTHIRST_HEAL = 3;
+
+/** One option in the level-up dialog: a stat boost (any number of times) or a perk (once each). */
+export interface LevelUpChoice {
+  id: string;
+  name: string;
+  description: string;
+  bonuses?: StatBonuses;
+  perk?: PerkId;
+}
+
+const boost = (id: string, name: string, bonuses: StatBonuses): LevelUpChoice => ({ id, name, description: describeBonuses(bonuses), bonuses });
+
+const statBoosts: LevelUpChoice[] = [
+  boost('might', "Thor's Might", { atk: 2 }),
+  boost('guard', 'Iron Guard', { def: 2 }),
+  boost('vigour', 'Troll Vigour', { maxHP: 10 })
+];
+
+export const hasPerk = (player: PlayerState, perk: PerkId) => !!player.perks?.includes(perk);
+
+/** What the hero can pick on their next level-up: every stat boost, plus the perks not taken yet. */
+export const levelUpChoices = (player: PlayerState): LevelUpChoice[] => [
+  ...statBoosts,
+  ...perks
+    .filter((perk) => !hasPerk(player, perk.id))
+    .map((perk) => ({ id: perk.id, name: perk.name, description: perk.description, perk: perk.id }))
+];
+
+/** Total XP needed to reach `level`; level 1 needs none. */
+export const xpForLevel = (level: number) => Math.round(XP_BASE * (level - 1) ** XP_CURVE);
+
+export const xpReward = (archetype: MonsterArchetype) => archetype.xp * TIER_XP[archetype.tier ?? 'minion'];
+
+/** Add XP, levelling up as many times as it covers. Each level banks a choice for the dialog. */
+export const gainXp = (state: GameState, amount: number, ctx: StepContext): GameState => {
+  let player: PlayerState = { ...state.player, xp: state.player.xp + amount };
+  while (player.xp >= xpForLevel(player.level + 1)) {
+    player = { ...player, level: player.level + 1, pendingLevelUps: (player.pendingLevelUps ?? 0) + 1 };
+    log(ctx, `You reach level ${player.level}! Choose how you grow stronger.`);
+  }
+  return { ...state, player };
+};
+
+/** Spend one pending level-up on `choiceId`. Unknown or unavailable choices change nothing. */
+export const chooseLevelUp = (state: GameState, choiceId: string, ctx: StepContext): GameState => {
+  const { player } = state;
+  const choice = levelUpChoices(player).find((c) => c.id === choiceId);
+  if (!player.pendingLevelUps || !choice) return state;
+
+  const pendingLevelUps = player.pendingLevelUps - 1 || undefined;
+  if (choice.perk) {
+    log(ctx, `You learn ${choice.name}: ${choice.description}`);
+    return { ...state, player: { ...player, pendingLevelUps, perks: [...(player.perks ?? []), choice.perk] } };
+  }
+  log(ctx, `${choice.name} surges through you: ${choice.description}.`);
+  return { ...state, player: { ...applyBonuses(player, choice.bonuses, 1), pendingLevelUps } };
+};
@@ -0,0 +1,145 @@
+import { labelRegions, updateTiles } from './dungeonGen';
+import { summonMonster } from './monsterAI';
+import { log, StepContext } from './stepContext';
+import { GameState } from './types';
+
+export interface Riddle {
+  id: string;
+  question: string;
+  /** Accepted answers, already normalized (see `normalizeAnswer`). */
+  answers: string[];
+}
+
+export const riddles: Riddle[] = [
+  { id: 'sleipnir', question: 'Eight legs I run on, grey as storm cloud, and the Allfather rides me between worlds. What am I?', answers: ['sleipnir'] },
+  {
+    id: 'odin',
+    question: 'Nine nights I hung on the windy tree, wounded by a spear, given to myself, to win the runes. Who am I?',
+    answers: ['odin', 'odinn', 'allfather', 'woden', 'wotan']
+  },
+  { id: 'bifrost', question: 'I burn in three colours and bear the gods from Asgard to Midgard. What am I?', answers: ['bifrost', 'bifrost bridge', 'rainbow bridge', 'rainbow'] },
+  {
+    id: 'jormungandr',
+    question: 'I lie beneath the sea and ring the world of men, my own tail in my teeth. What am I?',
+    answers: ['jormungandr', 'jormungand', 'midgard serpent', 'world serpent']
+  },
+  { id: 'mjolnir', question: 'Thrown, I always return; dwarves forged me with a handle too short. What am I?', answers: ['mjolnir', 'thors hammer', 'hammer'] },
+  {
+    id: 'fenrir',
+    question: "A cat's footfall and a mountain's roots bound me, and the god who fed me lost his hand. What am I?",
+    answers: ['fenrir', 'fenris', 'fenris wolf', 'fenrisulfr']
+  },
+  { id: 'heimdall', question: 'I hear wool grow on sheep, and at the end of days I will sound the Gjallarhorn. Who am I?', answers: ['heimdall', 'heimdallr'] },
+  { id: 'yggdrasil', question: 'Nine worlds hang in my branches; a dragon gnaws my roots and an eagle sits at my crown. What am I?', answers: ['yggdrasil', 'world tree', 'ash'] },
+  { id: 'idunn', question: 'Without the fruit I keep, the gods would wither and grey. Who am I?', answers: ['idunn', 'idun', 'iduna'] },
+  { id: 'loki', question: 'Shape-shifter, blood-brother of Odin, father of wolf and serpent and mother of a horse. Who am I?', answers: ['loki'] },
+  { id: 'naglfar', question: "Built from dead men's nails, I will sail when the world ends. What am I?", answers: ['naglfar', 'naglfari'] },
+  { id: 'ragnarok', question: 'The wolf swallows the sun, the gods fall and the world sinks in the sea. What am I?', answers: ['ragnarok', 'ragnarock', 'twilight of the gods'] }
+];
+
+export const riddlesById: Record<string, Riddle> = Object.fromEntries(riddles.map((riddle) => [riddle.id, riddle]));
+
+/** Lowercase, fold Norse diacritics, drop punctuation and a leading article. */
+export const normalizeAnswer = (answer: string) =>
+  answer
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ö|ø/g, 'o')
+    .replace(/æ/g, 'ae')
+    .replace(/ð/g, 'd')
+    .replace(/þ/g, 'th')
+    .replace(/[^a-z ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '');
+
+/** Stepping onto an unanswered rune stone opens its riddle, picked on the first visit and the same ever after. */
+export const openRiddle = (state: GameState, pos: { x: number; y: number }, ctx: StepContext): GameState => {
+  const riddle = riddlesById[state.tiles[pos.y][pos.x].riddleId ?? ''] ?? ctx.rng.pick(riddles);
+  log(ctx, 'Runes flare to life on the standing stone. A voice asks:');
+  log(ctx, `"${riddle.question}"`);
+  return {
+    ...state,
+    tiles: updateTiles(state.tiles, pos.x, pos.y, (tile) => ({ ...tile, riddleId: riddle.id })),
+    riddle: { riddleId: riddle.id, pos }
+  };
+};
+
+export const leaveRiddle = (state: GameState, ctx: StepContext): GameState => {
+  if (!state.riddle) return state;
+  log(ctx, 'You step back from the stone. The runes dim, waiting.');
+  return { ...state, riddle: null };
+};
+
+const reward = (state: GameState, ctx: StepContext): GameState => {
+  const kind = ctx.rng.int(0, 2);
+  if (kind === 0) {
+    const gold = 20 + ctx.rng.int(0, 10) * state.depth;
+    log(ctx, `Gold spills from a hollow in the stone. +${gold} gold`);
+    return { ...state, player: { ...state.player, gold: state.player.gold + gold } };
+  }
+  if (kind === 1) {
+    const stat = ctx.rng.pick(['atk', 'def', 'maxHP'] as const);
+    const amount = stat === 'maxHP' ? 5 : 1;
+    const label = stat === 'maxHP' ? 'max HP' : stat.toUpperCase();
+    log(ctx, `The gods bless you: +${amount} ${label}.`);
+    const player = { ...state.player, [stat]: state.player[stat] + amount };
+    return { ...state, player: stat === 'maxHP' ? { ...player, hp: player.hp + amount } : player };
+  }
+  let tiles = state.tiles;
+  let revealed = 0;
+  tiles.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (tile.type === 'secretDoor' && !tile.revealed) {
+        tiles = updateTiles(tiles, x, y, (t) => ({ ...t, revealed: true, explored: true }));
+        revealed++;
+      }
+    })
+  );
+  if (!revealed) {
+    log(ctx, 'The stone whispers that no hidden ways remain here, and grants you 15 gold instead.');
+    return { ...state, player: { ...state.player, gold: state.player.gold + 15 } };
+  }
+  log(ctx, `The stone shows you ${revealed} hidden door${revealed > 1 ? 's' : ''} on this floor.`);
+  return { ...state, tiles: labelRegions(tiles) };
+};
+
+const penalty = (state: GameState, pos: { x: number; y: number }, ctx: StepContext): GameState => {
+  const minions = Object.values(state.archetypesById).filter((a) => a.tier === 'minion');
+  if (ctx.rng.chance(0.5) && minions.length) {
+    const archetype = ctx.rng.pick(minions);
+    const summoned = summonMonster(state, archetype.id, pos, ctx);
+    if (summoned.id) {
+      log(ctx, `The stone cracks and a ${archetype.name} claws its way out!`);
+      return { ...summoned.state, combat: { active: true, monsterId: summoned.id } };
+    }
+  }
+  const maxHP = Math.max(1, state.player.maxHP - 3);
+  log(ctx, 'A curse settles on your bones: -3 max HP.');
+  return { ...state, player: { ...state.player, maxHP, hp: Math.min(state.player.hp, maxHP) } };
+};
+
+/** Judge an answer; either way the stone is spent afterwards. The stone waits while the hero is fighting. */
+export const answerRiddle = (state: GameState, answer: string, ctx: StepContext): GameState => {
+  if (!state.riddle) return state;
+  if (state.combat.active) {
+    log(ctx, 'The runes dim. The stone will not hear you until the fight is over.');
+    return state;
+  }
+  const riddle = riddlesById[state.riddle.riddleId];
+  const { pos } = state.riddle;
+  const spent: GameState = {
+    ...state,
+    riddle: null,
+    tiles: updateTiles(state.tiles, pos.x, pos.y, (tile) => ({ ...tile, triggered: true }))
+  };
+  log(ctx, `You answer: "${answer.trim()}".`);
+  if (riddle && riddle.answers.includes(normalizeAnswer(answer))) {
+    log(ctx, 'The runes blaze gold. You have answered truly.');
+    return reward(spent, ctx);
+  }
+  const solution = riddle ? riddle.answers[0][0].toUpperCase() + riddle.answers[0].slice(1) : 'lost to time';
+  log(ctx, `The runes bleed red. The answer was ${solution}.`);
+  return penalty(spent, pos, ctx);
+};
@@ -0,0 +1,52 @@
+/**
+ * Small seedable PRNG (mulberry32). The whole generator state is a single 32-bit integer so it can
+ * live on `GameState` and be carried from one update to the next, which keeps runs reproducible.
+ */
+export interface Rng {
+  /** Float in [0, 1). */
+  next: () => number;
+  /** Integer in [min, max], inclusive on both ends. */
+  int: (min: number, max: number) => number;
+  chance: (probability: number) => boolean;
+  pick: <T>(list: T[]) => T;
+  /** Current internal state; feed it back into `createRng` to continue the sequence. */
+  getState: () => number;
+}
+
+/** Hash an arbitrary seed string into a 32-bit starting state (FNV-1a). */
+export const hashSeed = (seed: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export const createRng = (state: number): Rng => {
+  let s = state >>> 0;
+
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min;
+
+  return {
+    next,
+    int,
+    chance: (probability) => next() < probability,
+    pick: (list) => list[int(0, list.length - 1)],
+    getState: () => s
+  };
+};
+
+const SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** Fresh human-friendly seed for a new run. This is the only place unseeded randomness is allowed. */
+export const randomSeed = (length = 8) =>
+  Array.from({ length }, () => SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)]).join('');
@@ -0,0 +1,236 @@
+import { labelRegions, updateTiles } from './dungeonGen';
+import { afflictMonster, afflictPlayer, statusesByKind } from './statuses';
+import { log, StepContext } from './stepContext';
+import { GameState, MonsterInstance, ParticleKind, PlayerState, RuneId, StatusInfliction } from './types';
+import { computeVisibility } from './visibility';
+
+export interface Rune {
+  id: RuneId;
+  name: string;
+  /** The Elder Futhark letter, shown on the rune buttons. */
+  glyph: string;
+  meaning: string;
+}
+
+export const runes: Rune[] = [
+  { id: 'fehu', name: 'Fehu', glyph: 'ᚠ', meaning: 'cattle, wealth' },
+  { id: 'thurisaz', name: 'Thurisaz', glyph: 'ᚦ', meaning: 'thorn, giant' },
+  { id: 'ansuz', name: 'Ansuz', glyph: 'ᚨ', meaning: 'the god Odin' },
+  { id: 'kenaz', name: 'Kenaz', glyph: 'ᚲ', meaning: 'torch' },
+  { id: 'isa', name: 'Isa', glyph: 'ᛁ', meaning: 'ice' },
+  { id: 'algiz', name: 'Algiz', glyph: 'ᛉ', meaning: 'elk, protection' },
+  { id: 'sowilo', name: 'Sowilo', glyph: 'ᛊ', meaning: 'sun' }
+];
+
+export const runesById = Object.fromEntries(runes.map((rune) => [rune.id, rune])) as Record<RuneId, Rune>;
+
+export type SpellKind = 'damage' | 'ward' | 'light' | 'reveal';
+
+export interface Spell {
+  id: string;
+  name: string;
+  kind: SpellKind;
+  /** The two runes that form it, in either order. */
+  runes: [RuneId, RuneId];
+  /** Focus spent per cast. */
+  cost: number;
+  description: string;
+  particles: ParticleKind;
+  /** Damage spells: damage range, ignoring the target's DEF. */
+  damage?: [number, number];
+  /** Status put on the target (damage spells) or the hero (wards). */
+  status?: StatusInfliction;
+}
+
+/** Damage spells outside a fight strike the nearest visible monster within this many tiles. */
+export const SPELL_RANGE = 6;
+/** Sunfire lights the halls this far around the hero. */
+const LIGHT_RADIUS = 9;
+/** Odin's Eye finds hidden traps and doors this far away, through walls. */
+const REVEAL_RADIUS = 8;
+/** Turns per point of focus regained. */
+export const FOCUS_REGEN_TURNS = 4;
+/** Focus restored by picking up a rune the hero already knows. */
+const KNOWN_RUNE_FOCUS = 4;
+
+export const spells: Spell[] = [
+  {
+    id: 'fireThorn',
+    name: 'Thorn of Fire',
+    kind: 'damage',
+    runes: ['thurisaz', 'kenaz'],
+    cost: 4,
+    description: 'A burning thorn for 6-10 damage that no armour turns aside.',
+    particles: 'fire',
+    damage: [6, 10]
+  },
+  {
+    id: 'rimeSpear',
+    name: 'Rime Spear',
+    kind: 'damage',
+    runes: ['thurisaz', 'isa'],
+    cost: 6,
+    description: 'A shard of ice for 4-7 damage that freezes the target for 2 turns.',
+    particles: 'frost',
+    damage: [4, 7],
+    status: { kind: 'frozen', turns: 2 }
+  },
+  {
+    id: 'aesirWard',
+    name: 'Ward of the Aesir',
+    kind: 'ward',
+    runes: ['algiz', 'ansuz'],
+    cost: 5,
+    description: 'Blessed for 6 turns: +2 DEF, slow healing, cures poison and bleeding.',
+    particles: 'ward',
+    status: { kind: 'blessed', turns: 6 }
+  },
+  {
+    id: 'sunfire',
+    name: 'Sunfire',
+    kind: 'light',
+    runes: ['kenaz', 'sowilo'],
+    cost: 3,
+    description: `Light the halls within ${LIGHT_RADIUS} tiles and map them.`,
+    particles: 'light'
+  },
+  {
+    id: 'odinsEye',
+    name: "Odin's Eye",
+    kind: 'reveal',
+    runes: ['ansuz', 'sowilo'],
+    cost: 5,
+    description: `Reveal every hidden trap and secret door within ${REVEAL_RADIUS} tiles.`,
+    particles: 'reveal'
+  },
+  {
+    id: 'freyrsGleam',
+    name: "Freyr's Gleam",
+    kind: 'reveal',
+    runes: ['fehu', 'sowilo'],
+    cost: 3,
+    description: 'Gold calls to gold: mark every unopened chest on this floor on your map.',
+    particles: 'treasure'
+  }
+];
+
+/** The spell `picked` forms, whatever order the runes were chosen in, or undefined. */
+export const spellFor = (picked: RuneId[]): Spell | undefined =>
+  picked.length === 2 && picked[0] !== picked[1] ? spells.find((spell) => spell.runes.every((rune) => picked.includes(rune))) : undefined;
+
+export const knowsRune = (player: PlayerState, rune: RuneId) => !!player.runes?.includes(rune);
+
+/** Learn a rune found as loot. A rune already known is not wasted: it restores some focus instead. */
+export const learnRune = (state: GameState, rune: RuneId, ctx: StepContext): GameState => {
+  const { player } = state;
+  const { name, meaning } = runesById[rune];
+  if (knowsRune(player, rune)) {
+    const focus = Math.min(player.maxFocus, player.focus + KNOWN_RUNE_FOCUS);
+    log(ctx, `You already know ${name}.${focus > player.focus ? ` Tracing it again steadies your mind (+${focus - player.focus} focus).` : ''}`);
+    return { ...state, player: { ...player, focus } };
+  }
+  log(ctx, `You find a stone carved with ${name} (${meaning}) and learn the rune.`);
+  return { ...state, player: { ...player, runes: [...(player.runes ?? []), rune] } };
+};
+
+/** Deals spell damage to a monster, settling the kill if it dies; supplied by the engine. */
+export type HurtMonster = (state: GameState, monster: MonsterInstance, damage: number, message: string) => GameState;
+
+/** The spell's target: the monster in the fight, or else the nearest one in sight and range. */
+const targetOf = (state: GameState): MonsterInstance | undefined => {
+  if (state.combat.active && state.combat.monsterId) return state.monstersById[state.combat.monsterId];
+  const { x, y } = state.player;
+  return Object.values(state.monstersById)
+    .filter((m) => state.tiles[m.pos.y]?.[m.pos.x]?.visible && Math.hypot(m.pos.x - x, m.pos.y - y) <= SPELL_RANGE)
+    .sort((a, b) => Math.hypot(a.pos.x - x, a.pos.y - y) - Math.hypot(b.pos.x - x, b.pos.y - y))[0];
+};
+
+const castDamage = (state: GameState, spell: Spell, ctx: StepContext, hurt: HurtMonster): GameState => {
+  const target = targetOf(state);
+  if (!target) {
+    log(ctx, `There is no foe within ${SPELL_RANGE} tiles for ${spell.name}.`);
+    return state;
+  }
+  const name = state.archetypesById[target.archetypeId].name;
+  const damage = ctx.rng.int(spell.damage[0], spell.damage[1]);
+  ctx.events.push({ type: 'particles', x: target.pos.x, y: target.pos.y, kind: spell.particles });
+  const hurtState = hurt({ ...state }, target, damage, `${spell.name} strikes the ${name} for ${damage} damage.`);
+  if (!spell.status || !hurtState.monstersById[target.id]) return hurtState;
+  log(ctx, `The ${name} is ${statusesByKind[spell.status.kind].name.toLowerCase()}!`);
+  return afflictMonster(hurtState, target.id, spell.status);
+};
+
+const castWard = (state: GameState, spell: Spell, ctx: StepContext): GameState => {
+  log(ctx, `${spell.name} settles around you like a shield-wall.`);
+  ctx.events.push({ type: 'particles', x: state.player.x, y: state.player.y, kind: spell.particles });
+  return afflictPlayer(state, spell.status, ctx);
+};
+
+const castLight = (state: GameState, spell: Spell, ctx: StepContext): GameState => {
+  log(ctx, `${spell.name} blazes from your hand and the halls around you stand revealed.`);
+  ctx.events.push({ type: 'particles', x: state.player.x, y: state.player.y, kind: spell.particles });
+  return { ...state, tiles: computeVisibility(state.tiles, state.player, LIGHT_RADIUS) };
+};
+
+/** Odin's Eye finds hidden traps and secret doors nearby; Freyr's Gleam maps the floor's chests. */
+const castReveal = (state: GameState, spell: Spell, ctx: StepContext): GameState => {
+  const seekingGold = spell.id === 'freyrsGleam';
+  let tiles = state.tiles;
+  let found = 0;
+  let doors = false;
+  state.tiles.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (seekingGold ? tile.type !== 'treasure' || tile.explored : (tile.type !== 'trap' && tile.type !== 'secretDoor') || tile.revealed) return;
+      if (!seekingGold && Math.hypot(state.player.x - x, state.player.y - y) > REVEAL_RADIUS) return;
+      tiles = updateTiles(tiles, x, y, (t) => (seekingGold ? { ...t, explored: true } : { ...t, revealed: true }));
+      doors = doors || tile.type === 'secretDoor';
+      found++;
+      ctx.events.push({ type: 'particles', x, y, kind: spell.particles });
+    })
+  );
+  const noun = seekingGold ? 'unseen chest' : 'hidden thing';
+  log(ctx, found ? `${spell.name} shows you ${found === 1 ? `a ${noun}` : `${found} ${noun}s`}.` : `${spell.name} finds nothing hidden.`);
+  return { ...state, tiles: doors ? labelRegions(tiles) : tiles };
+};
+
+/**
+ * Cast the spell formed by `picked`, spending its focus. Unknown runes, pairs that form no spell,
+ * too little focus or a damage spell with nothing to hit change nothing, so no turn is spent.
+ */
+export const castSpell = (state: GameState, picked: RuneId[], ctx: StepContext, hurt: HurtMonster): GameState => {
+  const { player } = state;
+  if (player.hp <= 0) return state;
+  const unknown = picked.find((rune) => !knowsRune(player, rune));
+  if (unknown) {
+    log(ctx, `You have not learned ${runesById[unknown]?.name ?? 'that rune'}.`);
+    return state;
+  }
+  const spell = spellFor(picked);
+  if (!spell) {
+    log(ctx, `${picked.map((rune) => runesById[rune].name).join(' and ')} form no spell.`);
+    return state;
+  }
+  if (player.focus < spell.cost) {
+    log(ctx, `You need ${spell.cost} focus to cast ${spell.name}.`);
+    return state;
+  }
+
+  const paid: GameState = { ...state, player: { ...player, focus: player.focus - spell.cost } };
+  let next: GameState;
+  if (spell.kind === 'damage') next = castDamage(paid, spell, ctx, hurt);
+  else if (spell.kind === 'ward') next = castWard(paid, spell, ctx);
+  else if (spell.kind === 'light') next = castLight(paid, spell, ctx);
+  else next = castReveal(paid, spell, ctx);
+  return next === paid ? state : next;
+};
+
+/** Regain a point of focus every `FOCUS_REGEN_TURNS` turns while below the maximum. */
+export const tickFocus = (state: GameState): GameState => {
+  const { player } = state;
+  if (player.focus >= player.maxFocus) return player.focusCharge ? { ...state, player: { ...player, focusCharge: undefined } } : state;
+  const charge = (player.focusCharge ?? FOCUS_REGEN_TURNS) - 1;
+  return {
+    ...state,
+    player: charge > 0 ? { ...player, focusCharge: charge } : { ...player, focus: player.focus + 1, focusCharge: undefined }
+  };
+};
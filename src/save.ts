@@ -0,0 +1,143 @@
+import { archetypes, scaleArchetype } from './archetypes';
+import { heroClassFor } from './heroClasses';
+import { GameState, HeroClassId } from './types';
+
+/**
+ * Bump this whenever the shape of `GameState` (or anything nested in it, like `Tile` or
+ * `PlayerState`) changes, and register a migration from the previous version below.
+ */
+export const SAVE_VERSION = 11;
+
+const STORAGE_KEY = 'norse-dungeon-crawler:save';
+
+export interface SaveFile {
+  version: number;
+  savedAt: string;
+  state: GameState;
+}
+
+/** Loose shape of saved data mid-migration: older versions may lack fields or carry ones since removed. */
+type RawRecord = Record<string, unknown>;
+
+interface RawSave {
+  version: number;
+  savedAt?: string;
+  state: RawRecord;
+}
+
+const isRawSave = (raw: unknown): raw is RawSave =>
+  !!raw && typeof raw === 'object' && typeof (raw as RawSave).version === 'number' && !!(raw as RawSave).state;
+
+const playerOf = (save: RawSave) => save.state.player as RawRecord;
+
+/**
+ * Migrations keyed by the version they upgrade *from*. Each receives the raw save object of that
+ * version and returns one shaped like `version + 1`; `migrateSave` chains them up to `SAVE_VERSION`.
+ */
+type Migration = (save: RawSave) => RawSave;
+const migrations: Record<number, Migration> = {
+  // v2 added multi-floor descent; older saves were always on the first floor.
+  1: (save) => ({ ...save, state: { ...save.state, depth: 1 } }),
+  // v3 turned `inventory` into item ids and added equipment slots; nothing filled the old list.
+  2: (save) => ({ ...save, state: { ...save.state, inventory: [], equipment: {} } }),
+  // v4 added doors with keys; older floors have no locks, so an empty key ring is enough.
+  3: (save) => ({ ...save, state: { ...save.state, keys: [] } }),
+  // v5 added pluggable layouts; older runs were all built by the original rooms generator.
+  4: (save) => ({ ...save, state: { ...save.state, generatorId: 'rooms', generatorSetting: 'rooms' } }),
+  // v6 split the square `gridSize` into width and height.
+  5: (save) => {
+    const { gridSize, ...state } = save.state;
+    return { ...save, state: { ...state, width: gridSize, height: gridSize } };
+  },
+  // v7 added biomes; every earlier floor had the icy Niflheim look.
+  6: (save) => ({ ...save, state: { ...save.state, biomeId: 'niflheim' } }),
+  // v8 replaced the frost rune's slow and the dart's poison counters with status effects.
+  7: (save) => {
+    const { slowedTurns, poisonedTurns, ...player } = playerOf(save);
+    const statuses = [
+      ...(slowedTurns ? [{ kind: 'frozen', turns: slowedTurns }] : []),
+      ...(poisonedTurns ? [{ kind: 'poisoned', turns: poisonedTurns }] : [])
+    ];
+    return { ...save, state: { ...save.state, player: { ...player, statuses: statuses.length ? statuses : undefined } } };
+  },
+  // v9 added experience; earlier heroes start over at level 1, and the floor's monsters learn what they are worth.
+  8: (save) => {
+    const depth = (save.state.depth as number) ?? 1;
+    const archetypesById = Object.fromEntries(
+      Object.entries((save.state.archetypesById ?? {}) as Record<string, RawRecord>).map(([id, archetype]) => {
+        const base = archetypes.find((a) => a.id === id);
+        return [id, { ...archetype, xp: base ? scaleArchetype(base, depth).xp : 0 }];
+      })
+    );
+    return { ...save, state: { ...save.state, archetypesById, player: { ...playerOf(save), level: 1, xp: 0 } } };
+  },
+  // v10 added hero classes; the old fixed hero plays like a Skald.
+  9: (save) => ({ ...save, state: { ...save.state, heroClass: 'skald' } }),
+  // v11 added rune magic; earlier heroes get their class's focus and starting runes.
+  10: (save) => {
+    const { stats, runes } = heroClassFor(save.state.heroClass as HeroClassId);
+    const player = { ...playerOf(save), focus: stats.maxFocus, maxFocus: stats.maxFocus, runes: [...runes] };
+    return { ...save, state: { ...save.state, player } };
+  }
+};
+
+const migrateSave = (raw: unknown): SaveFile => {
+  if (!isRawSave(raw)) {
+    throw new Error('Not a Norse Dungeon Crawler save.');
+  }
+  if (raw.version > SAVE_VERSION) {
+    throw new Error(`Save version ${raw.version} is newer than this game (${SAVE_VERSION}).`);
+  }
+  let save = raw;
+  while (save.version < SAVE_VERSION) {
+    const migrate = migrations[save.version];
+    if (!migrate) throw new Error(`No migration from save version ${save.version}.`);
+    save = { ...migrate(save), version: save.version + 1 };
+  }
+  return save as unknown as SaveFile;
+};
+
+export const serializeGame = (state: GameState): string => {
+  const save: SaveFile = { version: SAVE_VERSION, savedAt: new Date().toISOString(), state };
+  return JSON.stringify(save);
+};
+
+/** Parse and migrate a serialized save. Throws with a readable message if it cannot be used. */
+export const deserializeGame = (text: string): GameState => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Save file is not valid JSON.');
+  }
+  return migrateSave(raw).state;
+};
+
+export const saveToStorage = (state: GameState) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, serializeGame(state));
+  } catch {
+    // Storage may be full or disabled; the run simply isn't persisted.
+  }
+};
+
+export const loadFromStorage = (): GameState | null => {
+  try {
+    const text = window.localStorage.getItem(STORAGE_KEY);
+    return text ? deserializeGame(text) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const downloadSave = (state: GameState) => {
+  const blob = new Blob([serializeGame(state)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `norse-crawler-${state.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const readSaveFile = async (file: File): Promise<GameState> => deserializeGame(await file.text());
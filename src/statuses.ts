@@ -0,0 +1,179 @@
+import { log, StepContext } from './stepContext';
+import { GameState, MonsterInstance, PlayerState, StatusEffect, StatusInfliction, StatusKind } from './types';
+
+/**
+ * How a fresh dose combines with the same status already running: `refresh` keeps the longer of
+ * the two durations, `extend` adds the turns together, `intensify` also adds up the potency.
+ */
+export type StackingRule = 'refresh' | 'extend' | 'intensify';
+
+export interface StatusDefinition {
+  kind: StatusKind;
+  name: string;
+  description: string;
+  stacking: StackingRule;
+  /** No amount of stacking runs a status longer than this. */
+  maxTurns: number;
+  /** Cap for `intensify` stacking. */
+  maxPotency?: number;
+  /** Shift to the bearer's stats while the status lasts. */
+  atk?: number;
+  def?: number;
+  /** HP lost each turn, per point of potency. */
+  damage?: number;
+  /** Logged with the hero's damage each turn. */
+  tickMessage?: string;
+  /** HP regained each turn. */
+  heal?: number;
+  /** Statuses cleared the moment this one takes hold. */
+  cures?: StatusKind[];
+}
+
+export const statusDefinitions: StatusDefinition[] = [
+  {
+    kind: 'frozen',
+    name: 'Frozen',
+    description: 'Ice stiffens every limb: monsters act twice for each of your turns, and a frozen monster cannot act at all.',
+    stacking: 'refresh',
+    maxTurns: 6
+  },
+  {
+    kind: 'bleeding',
+    name: 'Bleeding',
+    description: 'Loses HP every turn; fresh wounds make it bleed harder.',
+    stacking: 'intensify',
+    maxTurns: 6,
+    maxPotency: 3,
+    damage: 1,
+    tickMessage: 'Blood seeps from your wounds.'
+  },
+  {
+    kind: 'poisoned',
+    name: 'Poisoned',
+    description: 'Loses 2 HP every turn; more poison makes it last longer.',
+    stacking: 'extend',
+    maxTurns: 12,
+    damage: 2,
+    tickMessage: 'Poison burns in your veins.'
+  },
+  { kind: 'berserk', name: 'Berserk', description: '+3 ATK but -2 DEF in a battle rage.', stacking: 'refresh', maxTurns: 8, atk: 3, def: -2 },
+  {
+    kind: 'blessed',
+    name: 'Blessed',
+    description: '+2 DEF and 1 HP back each turn. Taking the blessing washes out poison and bleeding.',
+    stacking: 'refresh',
+    maxTurns: 10,
+    def: 2,
+    heal: 1,
+    cures: ['poisoned', 'bleeding']
+  }
+];
+
+export const statusesByKind = Object.fromEntries(statusDefinitions.map((s) => [s.kind, s])) as Record<StatusKind, StatusDefinition>;
+
+export const hasStatus = (effects: StatusEffect[] = [], kind: StatusKind) => effects.some((e) => e.kind === kind);
+
+/** Total ATK or DEF shift from `effects`. Monsters apply this at the moment of a blow. */
+export const statusModifier = (effects: StatusEffect[] = [], stat: 'atk' | 'def') =>
+  effects.reduce((sum, e) => sum + (statusesByKind[e.kind][stat] ?? 0), 0);
+
+/** Add one dose of a status following its stacking rule. */
+export const stackStatus = (effects: StatusEffect[] = [], dose: StatusInfliction): StatusEffect[] => {
+  const definition = statusesByKind[dose.kind];
+  const turns = Math.min(definition.maxTurns, dose.turns);
+  const existing = effects.find((e) => e.kind === dose.kind);
+  const rest = effects.filter((e) => e !== existing && !definition.cures?.includes(e.kind));
+  if (!existing) return [...rest, { kind: dose.kind, turns, potency: dose.potency }];
+
+  const stacked: StatusEffect = { ...existing, turns: Math.max(existing.turns, turns) };
+  if (definition.stacking === 'extend') stacked.turns = Math.min(definition.maxTurns, existing.turns + turns);
+  if (definition.stacking === 'intensify') {
+    stacked.potency = Math.min(definition.maxPotency ?? Infinity, (existing.potency ?? 1) + (dose.potency ?? 1));
+  }
+  return [...rest, stacked];
+};
+
+const names = (kinds: StatusKind[]) => kinds.map((kind) => statusesByKind[kind].name.toLowerCase()).join(' and ');
+
+/** Move a status's stat shifts onto or off the hero, the same way equipment bonuses are kept in `player`. */
+const shiftStats = (player: PlayerState, kinds: StatusKind[], sign: 1 | -1): PlayerState =>
+  kinds.reduce(
+    (p, kind) => ({ ...p, atk: p.atk + sign * (statusesByKind[kind].atk ?? 0), def: p.def + sign * (statusesByKind[kind].def ?? 0) }),
+    player
+  );
+
+/** Replace the hero's statuses, folding stat shifts in for new ones and out for the ones that ended. */
+const withStatuses = (player: PlayerState, effects: StatusEffect[]): PlayerState => {
+  const before = (player.statuses ?? []).map((e) => e.kind);
+  const after = effects.map((e) => e.kind);
+  const ended = shiftStats(player, before.filter((kind) => !after.includes(kind)), -1);
+  const started = shiftStats(ended, after.filter((kind) => !before.includes(kind)), 1);
+  return { ...started, statuses: effects.length ? effects : undefined };
+};
+
+/** Put a status on the hero. Callers log their own flavour text; this only notes what a blessing washes out. */
+export const afflictPlayer = (state: GameState, dose: StatusInfliction, ctx: StepContext): GameState => {
+  const cured = (state.player.statuses ?? []).filter((e) => statusesByKind[dose.kind].cures?.includes(e.kind)).map((e) => e.kind);
+  if (cured.length) log(ctx, `You are no longer ${names(cured)}.`);
+  return { ...state, player: withStatuses(state.player, stackStatus(state.player.statuses, dose)) };
+};
+
+/** Put a status on a monster. */
+export const afflictMonster = (state: GameState, id: string, dose: StatusInfliction): GameState => {
+  const monster = state.monstersById[id];
+  if (!monster) return state;
+  return { ...state, monstersById: { ...state.monstersById, [id]: { ...monster, statuses: stackStatus(monster.statuses, dose) } } };
+};
+
+/** Whether an infliction takes hold this time, rolling its `chance`. */
+export const rollInfliction = (infliction: StatusInfliction | undefined, ctx: StepContext) =>
+  !!infliction && ctx.rng.chance(infliction.chance ?? 1);
+
+const tickDamage = (effect: StatusEffect) => (statusesByKind[effect.kind].damage ?? 0) * (effect.potency ?? 1);
+
+/** One turn of `effects`: the HP change it causes, what is left running and what just wore off. */
+const tickEffects = (effects: StatusEffect[] = []) => {
+  const damage = effects.reduce((sum, e) => sum + tickDamage(e), 0);
+  const heal = effects.reduce((sum, e) => sum + (statusesByKind[e.kind].heal ?? 0), 0);
+  const remaining = effects.map((e) => ({ ...e, turns: e.turns - 1 })).filter((e) => e.turns > 0);
+  const expired = effects.filter((e) => e.turns <= 1).map((e) => e.kind);
+  return { damage, heal, remaining, expired };
+};
+
+/** End-of-turn upkeep for the hero: damage and healing over time, then expiry. */
+export const tickPlayerStatuses = (state: GameState, ctx: StepContext): GameState => {
+  const { player } = state;
+  if (player.hp <= 0 || !player.statuses?.length) return state;
+  const { damage, heal, remaining, expired } = tickEffects(player.statuses);
+  player.statuses.forEach((e) => {
+    if (tickDamage(e)) log(ctx, `${statusesByKind[e.kind].tickMessage} You take ${tickDamage(e)} damage.`);
+  });
+  if (expired.length) log(ctx, `You are no longer ${names(expired)}.`);
+  const hp = Math.min(player.maxHP, Math.max(0, player.hp - damage + heal));
+  if (hp <= 0) log(ctx, 'You succumb to your wounds.');
+  return { ...state, player: { ...withStatuses(player, remaining), hp } };
+};
+
+/**
+ * End-of-turn upkeep for every afflicted monster. One that bleeds or sickens to death is handed
+ * to `slay`, which settles the kill the same way a killing blow would.
+ */
+export const tickMonsterStatuses = (
+  state: GameState,
+  ctx: StepContext,
+  slay: (state: GameState, monster: MonsterInstance) => GameState
+): GameState =>
+  Object.keys(state.monstersById)
+    .sort()
+    .reduce((acc, id) => {
+      const monster = acc.monstersById[id];
+      if (!monster?.statuses?.length) return acc;
+      const archetype = acc.archetypesById[monster.archetypeId];
+      const { damage, heal, remaining } = tickEffects(monster.statuses);
+      const hp = Math.min(archetype.maxHP, monster.hp - damage + heal);
+      const ticked: MonsterInstance = { ...monster, hp, statuses: remaining.length ? remaining : undefined };
+      const next = { ...acc, monstersById: { ...acc.monstersById, [id]: ticked } };
+      if (hp > 0) return next;
+      log(ctx, `The ${archetype.name} succumbs to its wounds.`);
+      return slay(next, ticked);
+    }, state);
@@ -0,0 +1,25 @@
+import { Rng } from './rng';
+import { ParticleKind } from './types';
+
+/**
+ * Everything a step wants the outside world to know about besides the new state. Log events are
+ * also folded into `state.log`; the rest are presentation cues (canvas flashes, particles, shake).
+ */
+export type GameEvent =
+  | { type: 'log'; message: string }
+  | { type: 'hitFlash'; target: 'player' | 'monster' }
+  | { type: 'particles'; x: number; y: number; kind: ParticleKind }
+  | { type: 'screenShake'; duration: number; intensity: number };
+
+/**
+ * Per-step scratch space shared by the engine and its subsystems: the RNG resumed from
+ * `state.rngState` and the events emitted so far.
+ */
+export interface StepContext {
+  rng: Rng;
+  events: GameEvent[];
+}
+
+export const log = (ctx: StepContext, message: string) => {
+  ctx.events.push({ type: 'log', message });
+};
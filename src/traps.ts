@@ -0,0 +1,132 @@
+import { updateTiles } from './dungeonGen';
+import { Rng } from './rng';
+import { hasPerk } from './progression';
+import { afflictPlayer } from './statuses';
+import { log, StepContext } from './stepContext';
+import { GameState, PlayerState, Tile, TrapKind } from './types';
+
+export interface TrapDefinition {
+  kind: TrapKind;
+  name: string;
+  /** Relative odds of the generator placing this kind. */
+  weight: number;
+}
+
+export const traps: TrapDefinition[] = [
+  { kind: 'spike', name: 'Spike trap', weight: 4 },
+  { kind: 'frostRune', name: 'Frost rune', weight: 2 },
+  { kind: 'pit', name: 'Pit', weight: 2 },
+  { kind: 'alarm', name: 'Alarm horn', weight: 1 },
+  { kind: 'poisonDart', name: 'Dart trap', weight: 2 }
+];
+
+export const trapsByKind = Object.fromEntries(traps.map((trap) => [trap.kind, trap])) as Record<TrapKind, TrapDefinition>;
+
+const FROST_TURNS = 4;
+const POISON_TURNS = 4;
+const BLEED_TURNS = 3;
+/** Disarming fails this much more easily on the sturdier traps. */
+const DISARM_DIFFICULTY: Record<TrapKind, number> = { spike: 0, frostRune: 0.1, pit: -0.1, alarm: 0, poisonDart: 0.05 };
+
+export const trapKindOf = (tile: Tile): TrapKind => tile.trapKind ?? 'spike';
+
+export const rollTrapKind = (rng: Rng): TrapKind => {
+  let roll = rng.int(1, traps.reduce((sum, trap) => sum + trap.weight, 0));
+  return traps.find((trap) => (roll -= trap.weight) <= 0)!.kind;
+};
+
+const hurt = (player: PlayerState, damage: number): PlayerState => ({ ...player, hp: Math.max(0, player.hp - damage) });
+
+/**
+ * Spring the trap at `pos`: reveal it, mark it used and apply its effect. `adjacent` is for a trap set
+ * off from the next tile (a slipped disarm): a pit then only caves in, and the rest still reach the hero.
+ */
+export const springTrap = (state: GameState, pos: { x: number; y: number }, ctx: StepContext, adjacent = false): GameState => {
+  const kind = trapKindOf(state.tiles[pos.y][pos.x]);
+  const tiles = updateTiles(state.tiles, pos.x, pos.y, (tile) => ({ ...tile, revealed: true, triggered: true }));
+  let next: GameState = { ...state, tiles };
+  if (adjacent && kind === 'pit') {
+    log(ctx, 'The floor beside you caves in, leaving an open pit.');
+    return next;
+  }
+  ctx.events.push({ type: 'hitFlash', target: 'player' });
+
+  if (kind === 'spike') {
+    const damage = ctx.rng.int(5, 15);
+    log(ctx, `Spikes burst from the floor! You take ${damage} damage and start to bleed.`);
+    next = afflictPlayer({ ...next, player: hurt(next.player, damage) }, { kind: 'bleeding', turns: BLEED_TURNS }, ctx);
+  } else if (kind === 'frostRune') {
+    const damage = ctx.rng.int(2, 5);
+    log(ctx, `A frost rune flares ${adjacent ? 'beside' : 'beneath'} you: ${damage} damage, and your limbs freeze stiff.`);
+    next = afflictPlayer({ ...next, player: hurt(next.player, damage) }, { kind: 'frozen', turns: FROST_TURNS }, ctx);
+  } else if (kind === 'pit') {
+    const damage = ctx.rng.int(3, 6);
+    const turns = ctx.rng.int(2, 4);
+    log(ctx, `The floor gives way and you drop into a pit! You take ${damage} damage.`);
+    next = { ...next, player: { ...hurt(next.player, damage), trappedTurns: turns } };
+  } else if (kind === 'alarm') {
+    log(ctx, 'A hidden horn blares through the halls. Every monster on the floor is awake now!');
+    const monstersById = Object.fromEntries(Object.entries(next.monstersById).map(([id, m]) => [id, { ...m, awake: true }]));
+    next = { ...next, monstersById };
+  } else {
+    const damage = ctx.rng.int(2, 4);
+    log(ctx, `A poisoned dart strikes you for ${damage} damage.`);
+    next = afflictPlayer({ ...next, player: hurt(next.player, damage) }, { kind: 'poisoned', turns: POISON_TURNS }, ctx);
+  }
+  return next;
+};
+
+/** A revealed, unsprung trap next to the hero (including diagonals), if there is one. */
+export const adjacentTrap = (state: GameState): { x: number; y: number } | null => {
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const x = state.player.x + dx;
+      const y = state.player.y + dy;
+      const tile = state.tiles[y]?.[x];
+      if ((dx || dy) && tile?.type === 'trap' && tile.revealed && !tile.triggered) return { x, y };
+    }
+  }
+  return null;
+};
+
+/** Odds of disarming a trap of `kind`: steady hands (DEF) count double, strength (ATK) helps a little. */
+export const disarmChance = (player: PlayerState, kind: TrapKind) => {
+  const odds = 0.3 + 0.05 * player.def + 0.02 * player.atk - DISARM_DIFFICULTY[kind] + (hasPerk(player, 'trapSense') ? 0.2 : 0);
+  return Math.min(0.95, Math.max(0.1, odds));
+};
+
+/**
+ * Try to disarm an adjacent revealed trap. Success turns it into plain floor; failure springs it
+ * from where the hero stands half the time and otherwise just wastes the turn.
+ */
+export const disarmTrap = (state: GameState, ctx: StepContext): GameState => {
+  if (state.player.hp <= 0 || state.combat.active) return state;
+  const pos = adjacentTrap(state);
+  if (!pos) {
+    log(ctx, 'There is no known trap beside you to disarm.');
+    return state;
+  }
+  const tile = state.tiles[pos.y][pos.x];
+  const trap = trapsByKind[trapKindOf(tile)];
+  const chance = disarmChance(state.player, trap.kind);
+  if (ctx.rng.chance(chance)) {
+    log(ctx, `You carefully disarm the ${trap.name.toLowerCase()} (${Math.round(chance * 100)}% chance).`);
+    const floor = tile.regionType === 'room' ? 'room' : 'corridor';
+    const tiles = updateTiles(state.tiles, pos.x, pos.y, (t) => ({ ...t, type: floor, revealed: undefined, triggered: undefined, trapKind: undefined }));
+    return { ...state, tiles };
+  }
+  if (ctx.rng.chance(0.5)) {
+    log(ctx, `Your hand slips and the ${trap.name.toLowerCase()} goes off!`);
+    return springTrap(state, pos, ctx, true);
+  }
+  log(ctx, `You fail to disarm the ${trap.name.toLowerCase()}, but it holds.`);
+  // A fresh object so `step` still counts the attempt as a spent turn.
+  return { ...state };
+};
+
+/** A move attempt while stuck in a pit spends the turn climbing instead. */
+export const climbPit = (state: GameState, ctx: StepContext): GameState => {
+  const turns = (state.player.trappedTurns ?? 0) - 1;
+  log(ctx, turns > 0 ? `You claw at the pit walls (${turns} more turn${turns === 1 ? '' : 's'}).` : 'You haul yourself out of the pit.');
+  return { ...state, player: { ...state.player, trappedTurns: turns > 0 ? turns : undefined } };
+};
@@ -0,0 +1,48 @@
+import { isPassable } from './dungeonGen';
+import { findPath, Point } from './pathfinding';
+import { GameState, Tile } from './types';
+
+/** Known traps and hazard ground are walkable but strongly avoided when planning a route. */
+const KNOWN_TRAP_COST = 25;
+const HAZARD_COST = 25;
+
+const isKnownTrap = (tile: Tile) => tile.type === 'trap' && (tile.revealed || tile.triggered);
+
+/**
+ * Plan a click-to-travel route over explored tiles only, skirting monsters, known traps and hazards.
+ * Returns null when the target is unexplored, impassable, or unreachable through explored ground.
+ */
+export const planTravel = (state: GameState, target: Point): Point[] | null => {
+  const goal = state.tiles[target.y]?.[target.x];
+  if (!goal || !goal.explored || !isPassable(goal)) return null;
+  return findPath(state.tiles, state.player, target, {
+    canEnter: (tile) => tile.explored && isPassable(tile) && !tile.monsterId,
+    extraCost: (tile) => (isKnownTrap(tile) ? KNOWN_TRAP_COST : tile.type === 'hazard' ? HAZARD_COST : 0)
+  });
+};
+
+const visibleMonsterIds = (state: GameState) =>
+  new Set(
+    Object.values(state.monstersById)
+      .filter((m) => state.tiles[m.pos.y]?.[m.pos.x]?.visible)
+      .map((m) => m.id)
+  );
+
+const knownTrapCount = (state: GameState) =>
+  state.tiles.reduce((sum, row) => sum + row.filter(isKnownTrap).length, 0);
+
+/**
+ * Compare the state before and after one travel step and explain why travel should stop, if it
+ * should: combat started, a riddle opened, a monster came into view, or a trap was revealed or sprung.
+ */
+export const travelInterruption = (before: GameState, after: GameState): string | null => {
+  if (after.player.hp <= 0 || after.victory) return 'You stop.';
+  if (after.combat.active) return 'You are forced to stop and fight!';
+  if (after.depth !== before.depth) return 'You stop to take in the new realm.';
+  if (after.riddle && !before.riddle) return 'The rune stone demands your attention.';
+  if (after.player.pendingLevelUps) return 'You pause to savour your new strength.';
+  const seenBefore = visibleMonsterIds(before);
+  if ([...visibleMonsterIds(after)].some((id) => !seenBefore.has(id))) return 'You halt: something stirs ahead.';
+  if (knownTrapCount(after) > knownTrapCount(before)) return 'You halt at the sight of a trap.';
+  return null;
+};
@@ -7,7 +7,13 @@ export type TileType =
   | 'trap'
   | 'treasure'
   | 'start'
-  | 'boss';
+  | 'boss'
+  | 'stairs'
+  | 'runeStone'
+  /** The floor biome's hazard ground (see `biomes.ts`); hurts on every step. */
+  | 'hazard';
+
+export type TrapKind = 'spike' | 'frostRune' | 'pit' | 'alarm' | 'poisonDart';
 
 export interface Tile {
   type: TileType;
@@ -28,14 +34,52 @@ export interface Tile {
    * revealing the door can relabel the dungeon consistently.
    */
   secretDoorLinks?: [number, number];
-  /** Whether a trap has already been triggered. */
+  /** Whether a trap has already been triggered, or a rune stone's riddle already answered. */
   triggered?: boolean;
+  /** Traps only: what springing it does (see `traps.ts`). Older traps without one are spikes. */
+  trapKind?: TrapKind;
+  /** Rune stones only: the riddle it asks, chosen on the first visit and kept for every return. */
+  riddleId?: string;
   monsterId?: string | null;
   lootId?: string | null;
+  /** Doors only: whether the door stands open. Closed doors block sight but not movement. */
+  open?: boolean;
+  /** Doors only: id of the key that unlocks it. Locked doors block movement until unlocked. */
+  lockId?: string | null;
+  /** A key lying on this tile, identified by the lock it opens. */
+  keyFor?: string | null;
+  /** Part of a secret vault (see `carveSecretVaults`), whose only entrance is a secret door. */
+  vault?: boolean;
+  /** Turns left before ice from a boss's frost attack thaws; standing on it chills the player. */
+  frozenTurns?: number;
 }
 
 export type Tier = 'minion' | 'elite' | 'boss';
 
+/**
+ * How a monster acts on its turn. Hunters chase once they notice you, patrollers walk a beat
+ * until they do, cowards hunt but run when badly hurt, guards hold their tile.
+ */
+export type MonsterBehavior = 'hunter' | 'patrol' | 'coward' | 'guard';
+
+export type StatusKind = 'frozen' | 'bleeding' | 'poisoned' | 'berserk' | 'blessed';
+
+export interface StatusEffect {
+  kind: StatusKind;
+  turns: number;
+  /** How hard a stacking effect hits; bleeding deals this much damage per turn. */
+  potency?: number;
+}
+
+/** A status some source (a monster's blow, a consumable) can inflict, and how likely it sticks. */
+export interface StatusInfliction {
+  kind: StatusKind;
+  turns: number;
+  /** Defaults to 1 (always). */
+  chance?: number;
+  potency?: number;
+}
+
 export interface MonsterArchetype {
   id: string;
   name: string;
@@ -44,7 +88,13 @@ export interface MonsterArchetype {
   atk: number;
   def: number;
   gold: number;
+  /** Experience for the kill before the tier multiplier (see `xpReward`). */
+  xp: number;
   tier?: Tier;
+  /** Defaults to `'hunter'` when omitted. */
+  behavior?: MonsterBehavior;
+  /** Status its ordinary attacks may leave on the hero. */
+  onHit?: StatusInfliction;
 }
 
 export interface MonsterInstance {
@@ -52,14 +102,47 @@ export interface MonsterInstance {
   archetypeId: string;
   hp: number;
   pos: { x: number; y: number };
+  /** Set once the monster has noticed the player; asleep monsters stay put (or keep patrolling). */
+  awake?: boolean;
+  /** Current heading for patrolling monsters. */
+  patrolDir?: { x: number; y: number };
+  /** Id of the boss that summoned this monster; thralls join their master's fight. */
+  summonedBy?: string;
+  statuses?: StatusEffect[];
+}
+
+export type BossSpecial = 'iceBreath' | 'summon' | 'freezeFloor';
+
+/** Extra combat state while fighting a boss with a scripted encounter (see `boss.ts`). */
+export interface BossCombatState {
+  /** Index into the boss definition's phases. */
+  phase: number;
+  /** Special attack announced last turn, unleashed on the boss's next turn. */
+  telegraph: BossSpecial | null;
 }
 
 export interface CombatState {
   active: boolean;
   monsterId: string | null;
-  lastHitAt?: number;
+  boss?: BossCombatState;
+  /** The monster is reeling from a shield bash and loses its next attack. */
+  stunned?: boolean;
+  /** Rounds of this fight left before the hero can shield bash again. */
+  bashCooldown?: number;
 }
 
+/** The hero's class, chosen before a run (see `heroClasses.ts`). */
+export type HeroClassId = 'berserker' | 'volva' | 'skald';
+
+/** Lasting advantages picked on level-up instead of a stat boost (see `progression.ts`). */
+export type PerkId = 'trapSense' | 'fleetFoot' | 'shieldMaster' | 'bloodthirst';
+
+/** Runes of the Elder Futhark the hero can learn; pairs of them form spells (see `runes.ts`). */
+export type RuneId = 'fehu' | 'thurisaz' | 'ansuz' | 'kenaz' | 'isa' | 'algiz' | 'sowilo';
+
+/** Look of a particle burst on the canvas: loot, a kill, or the school of a spell. */
+export type ParticleKind = 'treasure' | 'monster' | 'fire' | 'frost' | 'ward' | 'light' | 'reveal';
+
 export interface PlayerState {
   x: number;
   y: number;
@@ -68,15 +151,94 @@ export interface PlayerState {
   atk: number;
   def: number;
   gold: number;
+  level: number;
+  /** Experience earned over the whole run; `xpForLevel` gives the thresholds. */
+  xp: number;
+  /** Level-ups reached but not yet spent on a stat boost or perk. */
+  pendingLevelUps?: number;
+  perks?: PerkId[];
+  /** Turns until the class ability can be used again. */
+  abilityCooldown?: number;
+  /** Spent to cast rune spells; regained slowly over time, fully on each descent. */
+  focus: number;
+  maxFocus: number;
+  /** Turns until the next point of focus returns. */
+  focusCharge?: number;
+  /** Runes the hero has learned, in the order they were found. */
+  runes?: RuneId[];
+  /** Turns left stuck at the bottom of a pit; each move attempt spends one climbing. */
+  trappedTurns?: number;
+  /** Ongoing effects (see `statuses.ts`); their ATK/DEF shifts are already included above. */
+  statuses?: StatusEffect[];
+}
+
+export type ItemKind = 'weapon' | 'armour' | 'potion' | 'mead' | 'amulet' | 'rune';
+
+export type EquipSlot = 'weapon' | 'armour' | 'amulet';
+
+export interface StatBonuses {
+  atk?: number;
+  def?: number;
+  maxHP?: number;
+}
+
+export interface ItemDefinition {
+  id: string;
+  name: string;
+  kind: ItemKind;
+  description: string;
+  /** Applied to the player while equipped (weapons, armour, amulets) or permanently when used. */
+  bonuses?: StatBonuses;
+  /** HP restored when a consumable is used. */
+  heal?: number;
+  /** Focus restored when a consumable is used. */
+  focus?: number;
+  /** Rune items only: the rune learned on pickup. They never go into the pack. */
+  rune?: RuneId;
+  /** Status a consumable puts on the hero, or on the monster they are fighting when `target` is `'foe'`. */
+  status?: StatusInfliction & { target?: 'self' | 'foe' };
+  /** Shallowest floor this item can be found on. */
+  minDepth?: number;
+  /** Relative drop weight among eligible items. */
+  weight: number;
+}
+
+/** An open riddle at a rune stone, waiting for the player's answer. */
+export interface RiddleEncounter {
+  riddleId: string;
+  pos: { x: number; y: number };
 }
 
 export interface GameState {
-  gridSize: number;
+  /** Seed string the run was started from; sharing it reproduces the same dungeon and dice. */
+  seed: string;
+  /** Current state of the seeded RNG (see `rng.ts`); every random decision advances it. */
+  rngState: number;
+  /** Current floor, starting at 1. Each descent generates a fresh, harder floor. */
+  depth: number;
+  /** Set once the boss of the deepest realm has fallen. */
+  victory?: boolean;
+  /** Layout algorithm that built the current floor (see `generators.ts`). */
+  generatorId: string;
+  /** Generator id used for every new floor, or 'varied' to roll one per floor. */
+  generatorSetting: string;
+  /** Biome of the current floor (see `biomes.ts`): its palette, monsters and hazard. */
+  biomeId: string;
+  heroClass: HeroClassId;
+  /** Map size in tiles; `tiles` is indexed [y][x]. */
+  width: number;
+  height: number;
   tiles: Tile[][];
   player: PlayerState;
   monstersById: Record<string, MonsterInstance>;
   archetypesById: Record<string, MonsterArchetype>;
   combat: CombatState;
+  riddle?: RiddleEncounter | null;
   log: string[];
+  /** Item ids (see `items.ts`) carried but not equipped; duplicates are separate items. */
   inventory: string[];
+  /** Lock ids of keys picked up on the current floor; they don't carry over to the next. */
+  keys: string[];
+  /** Item id worn in each slot; its bonuses are already included in `player`. */
+  equipment: Partial<Record<EquipSlot, string>>;
 }
@@ -1,6 +1,7 @@
 import { Tile } from './types';
 
-const isOpaque = (tile: Tile) => tile.type === 'wall' || (tile.type === 'secretDoor' && !tile.revealed);
+const isOpaque = (tile: Tile) =>
+  tile.type === 'wall' || (tile.type === 'secretDoor' && !tile.revealed) || (tile.type === 'door' && !tile.open);
 
 const hasLineOfSight = (tiles: Tile[][], from: { x: number; y: number }, to: { x: number; y: number }) => {
   let x0 = from.x;